@@ -0,0 +1,57 @@
+const SHELL_CACHE = "fs-toolbox-shell-v1";
+const ASSET_CACHE = "fs-toolbox-assets-v1";
+const SHELL_URLS = ["/", "/index.html", "/manifest.webmanifest", "/icon-192.png", "/icon-512.png", "/apple-touch-icon.png"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k !== SHELL_CACHE && k !== ASSET_CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const req = event.request;
+  if (req.method !== "GET") return;
+
+  const url = new URL(req.url);
+  if (url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith("/api/")) return;
+
+  if (req.mode === "navigate") {
+    event.respondWith(
+      fetch(req)
+        .then((res) => {
+          const copy = res.clone();
+          caches.open(SHELL_CACHE).then((cache) => cache.put("/index.html", copy));
+          return res;
+        })
+        .catch(() => caches.match("/index.html").then((hit) => hit || caches.match("/")))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(req).then(
+      (hit) =>
+        hit ||
+        fetch(req).then((res) => {
+          if (res.ok && (url.pathname.startsWith("/assets/") || SHELL_URLS.includes(url.pathname))) {
+            const copy = res.clone();
+            caches.open(ASSET_CACHE).then((cache) => cache.put(req, copy));
+          }
+          return res;
+        })
+    )
+  );
+});
@@ -0,0 +1,142 @@
+// Contract check for the reference backend: starts it on a free port with a throwaway store, exercises the routes the
+// app depends on, and exits non-zero if any check fails.
+//
+//   npm test   (or node server/contract-test.mjs)
+//
+// Runs with AUTH=off, so every request is an anonymous admin; role checks are not covered here.
+
+import { spawn } from "node:child_process";
+import { createServer } from "node:net";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import assert from "node:assert/strict";
+
+const SERVER = fileURLToPath(new URL("./reference-server.mjs", import.meta.url));
+const ORG_UUID = "2F234454-CF6D-4A0F-ADF2-F4911BA9FFA6";
+const START_TIMEOUT_MS = 10000;
+
+function freePort() {
+  return new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once("error", reject);
+    probe.listen(0, () => {
+      const { port } = probe.address();
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+async function waitForHealth(base, child) {
+  const deadline = Date.now() + START_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (child.exitCode != null) throw new Error(`The server exited with code ${child.exitCode} before answering.`);
+    try {
+      const res = await fetch(`${base}/api/health`);
+      if (res.ok) return;
+    } catch {
+      // Not listening yet.
+    }
+    await new Promise((r) => setTimeout(r, 100));
+  }
+  throw new Error(`The server did not answer within ${START_TIMEOUT_MS / 1000} s.`);
+}
+
+async function call(base, path, init) {
+  const res = await fetch(`${base}${path}`, init);
+  const body = res.status === 204 ? null : await res.json();
+  return { status: res.status, body };
+}
+
+const postJson = (json) => ({ method: "POST", headers: { "content-type": "application/json" }, body: JSON.stringify(json) });
+
+const checks = [
+  ["health", async (base) => {
+    const { status, body } = await call(base, "/api/health");
+    assert.equal(status, 200);
+    assert.deepEqual(body, { ok: true });
+  }],
+
+  ["jobsites", async (base) => {
+    const { status, body } = await call(base, "/api/jobsites");
+    assert.equal(status, 200);
+    assert.deepEqual(body.jobsites.map((j) => j.major).sort((a, b) => a - b), [9567, 23456]);
+  }],
+
+  ["assets GET", async (base) => {
+    const all = await call(base, "/api/assets");
+    assert.equal(all.status, 200);
+    assert.equal(all.body.assets.length, 5);
+    const one = await call(base, "/api/assets?major=23456");
+    assert.ok(one.body.assets.length > 0 && one.body.assets.every((a) => a.jobsiteMajor === 23456));
+    assert.equal((await call(base, "/api/assets?major=70000")).status, 400);
+  }],
+
+  ["assets POST", async (base) => {
+    const input = { assetType: "Switch", assetTag: "SW-9001", jobsiteMajor: 9567, beacon: { uuid: ORG_UUID, major: 9567, minor: 9001 } };
+    const created = await call(base, "/api/assets", postJson(input));
+    assert.equal(created.status, 201);
+    assert.ok(created.body.asset.id);
+    assert.equal(created.body.asset.displayName, "Switch – SW-9001");
+
+    const after = await call(base, "/api/assets?major=9567");
+    assert.ok(after.body.assets.some((a) => a.id === created.body.asset.id));
+    assert.equal((await call(base, "/api/assets", postJson(input))).status, 409);
+    assert.equal((await call(base, "/api/assets", postJson({ ...input, assetTag: "" }))).status, 400);
+  }],
+
+  ["multipart import", async (base) => {
+    // One new row, one beacon already in the seed, one unknown jobsite; the blank line and the quoted line break
+    // must not shift the line numbers of the rows after them.
+    const csv = [
+      "assetType,assetTag,major,minor,locationHint",
+      "Camera,CAM-100,23456,7100,\"Lobby",
+      "north wall\"",
+      "",
+      "Access Point,C1234,23456,501,",
+      "Camera,CAM-101,11111,7101,",
+    ].join("\r\n");
+    const form = new FormData();
+    form.append("file", new Blob([csv], { type: "text/csv" }), "assets.csv");
+    const { status, body } = await call(base, "/api/import/assets", { method: "POST", body: form });
+    assert.equal(status, 200);
+    assert.deepEqual({ created: body.created, skipped: body.skipped, errors: body.errors }, { created: 1, skipped: 1, errors: 1 });
+    assert.deepEqual(body.problems.map((p) => p.line), [5, 6]);
+
+    const after = await call(base, "/api/assets?major=23456");
+    assert.equal(after.body.assets.find((a) => a.assetTag === "CAM-100")?.locationHint, "Lobby\r\nnorth wall");
+  }],
+];
+
+const dir = await mkdtemp(join(tmpdir(), "fs-toolbox-contract-"));
+const port = await freePort();
+const base = `http://localhost:${port}`;
+const child = spawn(process.execPath, [SERVER], {
+  env: { ...process.env, PORT: String(port), DATA_FILE: join(dir, "store.json"), AUTH: "off", ANON_ROLE: "admin" },
+  stdio: ["ignore", "ignore", "inherit"],
+});
+
+let failed = 0;
+try {
+  await waitForHealth(base, child);
+  for (const [name, check] of checks) {
+    try {
+      await check(base);
+      console.log(`ok   ${name}`);
+    } catch (e) {
+      failed++;
+      console.log(`FAIL ${name}: ${e?.message || e}`);
+    }
+  }
+} catch (e) {
+  failed++;
+  console.log(`FAIL start: ${e?.message || e}`);
+} finally {
+  child.kill("SIGTERM");
+  await new Promise((r) => (child.exitCode != null ? r() : child.once("exit", r)));
+  await rm(dir, { recursive: true, force: true });
+}
+
+console.log(failed ? `${failed} of ${checks.length} checks failed.` : `All ${checks.length} checks passed.`);
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,74 @@
+// CSV and multipart helpers for the reference server. No dependencies.
+
+/**
+ * RFC 4180-ish: quoted fields, doubled quotes, CRLF or LF line ends. Blank lines are dropped. Each row is
+ * `{ line, fields }`, where `line` is the 1-based line the record starts on.
+ */
+export function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  const src = String(text).replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        if (c === "\n" || (c === "\r" && src[i + 1] !== "\n")) line++;
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push({ line: start, fields: row });
+      row = [];
+      field = "";
+      start = ++line;
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push({ line: start, fields: row });
+  }
+  return rows.filter((r) => r.fields.some((f) => f.trim()));
+}
+
+/** Returns the first file part of a multipart/form-data body, or null. */
+export function readMultipartFile(body, contentType) {
+  const m = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType || "");
+  if (!m) return null;
+  const delimiter = Buffer.from(`--${m[1] || m[2]}`);
+
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const next = body.indexOf(delimiter, start + delimiter.length);
+    if (next === -1) break;
+    const part = body.subarray(start + delimiter.length, next);
+    const headerEnd = part.indexOf("\r\n\r\n");
+    if (headerEnd !== -1) {
+      const headers = part.subarray(0, headerEnd).toString("utf8");
+      const filename = /filename="([^"]*)"/i.exec(headers);
+      if (filename) {
+        // Part content ends with the CRLF that precedes the next delimiter.
+        return { filename: filename[1], data: part.subarray(headerEnd + 4, part.length - 2) };
+      }
+    }
+    start = next;
+  }
+  return null;
+}
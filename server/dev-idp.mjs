@@ -0,0 +1,140 @@
+// Stand-in OpenID Connect provider for local development.
+// Implements discovery, the authorization-code flow with PKCE (S256) and refresh tokens.
+// There are no passwords: the sign-in form accepts any name and email, and lets you pick a role.
+//
+//   node server/dev-idp.mjs            (PORT=8081, ISSUER=http://localhost:8081)
+
+import { createServer } from "node:http";
+import { createHash, randomBytes } from "node:crypto";
+import { signJwt } from "./jwt.mjs";
+
+const PORT = Number(process.env.PORT || 8081);
+const ISSUER = (process.env.ISSUER || `http://localhost:${PORT}`).replace(/\/+$/, "");
+const ACCESS_TTL_S = Number(process.env.ACCESS_TTL_S || 900);
+const CODE_TTL_MS = 60000;
+const ROLES = ["technician", "lead", "admin"];
+
+const codes = new Map();
+const refreshTokens = new Map();
+
+const token = () => randomBytes(24).toString("base64url");
+const slug = (s) => String(s).toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+const escapeHtml = (s) => String(s).replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { "access-control-allow-origin": "*", "access-control-allow-headers": "content-type, authorization", ...headers });
+  res.end(body);
+}
+
+const json = (res, status, obj) => send(res, status, JSON.stringify(obj), { "content-type": "application/json" });
+const oauthError = (res, error, description, status = 400) => json(res, status, { error, error_description: description });
+
+async function readForm(req) {
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  return new URLSearchParams(raw);
+}
+
+function issueTokens(user, clientId) {
+  const now = Math.floor(Date.now() / 1000);
+  const claims = { iss: ISSUER, aud: clientId, sub: user.sub, name: user.name, email: user.email, roles: [user.role], iat: now, exp: now + ACCESS_TTL_S };
+  const refresh = token();
+  refreshTokens.set(refresh, { user, clientId });
+  return { token_type: "Bearer", access_token: signJwt(claims), id_token: signJwt(claims), refresh_token: refresh, expires_in: ACCESS_TTL_S };
+}
+
+function loginPage(params, error = "") {
+  const hidden = [...params].map(([k, v]) => `<input type="hidden" name="${escapeHtml(k)}" value="${escapeHtml(v)}">`).join("");
+  return `<!doctype html><html><head><meta name="viewport" content="width=device-width, initial-scale=1"><title>Dev sign-in</title>
+<style>body{font-family:system-ui,sans-serif;max-width:360px;margin:48px auto;padding:0 16px}label{display:block;margin:12px 0 4px;font-weight:600}input,select{width:100%;padding:10px;box-sizing:border-box}button{margin-top:16px;padding:10px 14px;font-weight:700}.err{color:#b91c1c}</style></head>
+<body><h2>Development sign-in</h2><p>Stand-in identity provider. Any name is accepted.</p>${error ? `<p class="err">${escapeHtml(error)}</p>` : ""}
+<form method="post" action="/authorize">${hidden}<label>Name</label><input name="name" required autofocus><label>Email</label><input name="email" type="email" placeholder="optional"><label>Role</label><select name="role">${ROLES.map((r) => `<option value="${r}">${r}</option>`).join("")}</select><button type="submit">Sign in</button></form></body></html>`;
+}
+
+function validateAuthorize(params) {
+  if (params.get("response_type") !== "code") return "response_type must be code";
+  if (!params.get("client_id")) return "client_id is required";
+  if (!params.get("redirect_uri")) return "redirect_uri is required";
+  if (!params.get("code_challenge") || params.get("code_challenge_method") !== "S256") return "PKCE with S256 is required";
+  return null;
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || "/", ISSUER);
+
+  if (req.method === "OPTIONS") return send(res, 204, "");
+
+  if (req.method === "GET" && url.pathname === "/.well-known/openid-configuration") {
+    return json(res, 200, {
+      issuer: ISSUER,
+      authorization_endpoint: `${ISSUER}/authorize`,
+      token_endpoint: `${ISSUER}/token`,
+      response_types_supported: ["code"],
+      grant_types_supported: ["authorization_code", "refresh_token"],
+      code_challenge_methods_supported: ["S256"],
+      id_token_signing_alg_values_supported: ["HS256"],
+    });
+  }
+
+  if (url.pathname === "/authorize" && req.method === "GET") {
+    const problem = validateAuthorize(url.searchParams);
+    if (problem) return send(res, 400, problem, { "content-type": "text/plain" });
+    return send(res, 200, loginPage(url.searchParams), { "content-type": "text/html; charset=utf-8" });
+  }
+
+  if (url.pathname === "/authorize" && req.method === "POST") {
+    const form = await readForm(req);
+    const problem = validateAuthorize(form);
+    if (problem) return send(res, 400, problem, { "content-type": "text/plain" });
+
+    const name = String(form.get("name") || "").trim();
+    const passthrough = new URLSearchParams([...form].filter(([k]) => k !== "name" && k !== "email" && k !== "role"));
+    if (!name) return send(res, 200, loginPage(passthrough, "Enter a name."), { "content-type": "text/html; charset=utf-8" });
+
+    const email = String(form.get("email") || "").trim() || `${slug(name)}@example.test`;
+    const role = ROLES.includes(form.get("role")) ? form.get("role") : "technician";
+    const code = token();
+    codes.set(code, {
+      user: { sub: slug(email), name, email, role },
+      clientId: form.get("client_id"),
+      redirectUri: form.get("redirect_uri"),
+      challenge: form.get("code_challenge"),
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+
+    const back = new URL(form.get("redirect_uri"));
+    back.searchParams.set("code", code);
+    if (form.get("state")) back.searchParams.set("state", form.get("state"));
+    return send(res, 302, "", { location: back.toString() });
+  }
+
+  if (url.pathname === "/token" && req.method === "POST") {
+    const form = await readForm(req);
+    const grant = form.get("grant_type");
+
+    if (grant === "authorization_code") {
+      const entry = codes.get(form.get("code") || "");
+      codes.delete(form.get("code") || "");
+      if (!entry || entry.expiresAt < Date.now()) return oauthError(res, "invalid_grant", "The sign-in code is unknown or expired.");
+      if (entry.clientId !== form.get("client_id") || entry.redirectUri !== form.get("redirect_uri")) return oauthError(res, "invalid_grant", "client_id or redirect_uri does not match.");
+      const verifier = form.get("code_verifier") || "";
+      if (createHash("sha256").update(verifier).digest("base64url") !== entry.challenge) return oauthError(res, "invalid_grant", "PKCE verification failed.");
+      return json(res, 200, issueTokens(entry.user, entry.clientId));
+    }
+
+    if (grant === "refresh_token") {
+      const entry = refreshTokens.get(form.get("refresh_token") || "");
+      if (!entry || entry.clientId !== form.get("client_id")) return oauthError(res, "invalid_grant", "The refresh token is unknown.");
+      refreshTokens.delete(form.get("refresh_token"));
+      return json(res, 200, issueTokens(entry.user, entry.clientId));
+    }
+
+    return oauthError(res, "unsupported_grant_type", `Unsupported grant_type ${grant}.`);
+  }
+
+  send(res, 404, "Not found", { "content-type": "text/plain" });
+});
+
+server.listen(PORT, () => {
+  console.log(`Dev identity provider on ${ISSUER}`);
+});
@@ -0,0 +1,31 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+// HS256 tokens shared between the stand-in identity provider and the reference server.
+// Development only: both sides read the same secret from DEV_AUTH_SECRET.
+export const DEV_AUTH_SECRET = process.env.DEV_AUTH_SECRET || "fs-toolbox-dev-secret";
+
+const b64url = (buf) => Buffer.from(buf).toString("base64url");
+
+export function signJwt(claims, secret = DEV_AUTH_SECRET) {
+  const head = b64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const body = b64url(JSON.stringify(claims));
+  const sig = createHmac("sha256", secret).update(`${head}.${body}`).digest("base64url");
+  return `${head}.${body}.${sig}`;
+}
+
+export function verifyJwt(token, { secret = DEV_AUTH_SECRET, issuer } = {}) {
+  const [head, body, sig] = String(token || "").split(".");
+  if (!head || !body || !sig) return null;
+  const expected = Buffer.from(createHmac("sha256", secret).update(`${head}.${body}`).digest("base64url"));
+  const given = Buffer.from(sig);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+  let claims;
+  try {
+    claims = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+  if (typeof claims.exp === "number" && claims.exp * 1000 < Date.now()) return null;
+  if (issuer && claims.iss !== issuer) return null;
+  return claims;
+}
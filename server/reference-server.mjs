@@ -0,0 +1,347 @@
+// Reference backend implementing the /api contract the app expects, on a JSON file store.
+// Seeded from server/seed.json (the same data as the app's demo mode) on first start.
+//
+//   node server/reference-server.mjs   (PORT=8080, DATA_FILE=server/data/store.json)
+//
+// Requests need a bearer token from the dev identity provider (OIDC_ISSUER, default http://localhost:8081).
+// AUTH=off serves every caller as an anonymous user with ANON_ROLE (default admin).
+
+import { createServer } from "node:http";
+import { randomUUID } from "node:crypto";
+import { fileURLToPath } from "node:url";
+import { openStore } from "./store.mjs";
+import { parseCsv, readMultipartFile } from "./csv.mjs";
+import { verifyJwt } from "./jwt.mjs";
+
+const PORT = Number(process.env.PORT || 8080);
+const OIDC_ISSUER = (process.env.OIDC_ISSUER || "http://localhost:8081").replace(/\/+$/, "");
+const AUTH = process.env.AUTH !== "off";
+const ANON_ROLE = process.env.ANON_ROLE || "admin";
+const ORG_UUID = process.env.ORG_UUID || "2F234454-CF6D-4A0F-ADF2-F4911BA9FFA6";
+const DATA_FILE = process.env.DATA_FILE || fileURLToPath(new URL("./data/store.json", import.meta.url));
+const SEED_FILE = fileURLToPath(new URL("./seed.json", import.meta.url));
+const MAX_BODY_BYTES = 12 * 1024 * 1024;
+const MAX_SIGHTINGS_PER_BEACON = 20;
+
+const ROLES = ["technician", "lead", "admin"];
+const REQUIRED_ROLE = { import: "admin", commission: "lead", delete: "admin", floorplan: "admin" };
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const store = await openStore(DATA_FILE, SEED_FILE);
+const db = store.data;
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, {
+    "access-control-allow-origin": "*",
+    "access-control-allow-headers": "content-type, authorization, idempotency-key",
+    "access-control-allow-methods": "GET, POST, PUT, DELETE, OPTIONS",
+    ...headers,
+  });
+  res.end(body);
+}
+
+const json = (res, status, obj) => send(res, status, JSON.stringify(obj), { "content-type": "application/json" });
+
+async function readBody(req) {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Request body is too large.");
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function readJson(req) {
+  const raw = (await readBody(req)).toString("utf8");
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON.");
+  }
+}
+
+function highestRole(claims) {
+  const raw = Array.isArray(claims.roles) ? claims.roles : claims.role != null ? [claims.role] : [];
+  const known = raw.map((r) => String(r).toLowerCase()).filter((r) => ROLES.includes(r));
+  return known.sort((a, b) => ROLES.indexOf(b) - ROLES.indexOf(a))[0] || "technician";
+}
+
+function authenticate(req) {
+  if (!AUTH) return { user: { id: "anonymous", name: "Anonymous" }, role: ANON_ROLE };
+  const m = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || "");
+  const claims = m ? verifyJwt(m[1], { issuer: OIDC_ISSUER }) : null;
+  if (!claims?.sub) throw new HttpError(401, "Sign in to use this server.");
+  const user = { id: String(claims.sub), name: String(claims.name || claims.email || claims.sub) };
+  if (typeof claims.email === "string") user.email = claims.email;
+  return { user, role: highestRole(claims) };
+}
+
+function requireRole(caller, permission) {
+  if (ROLES.indexOf(caller.role) < ROLES.indexOf(REQUIRED_ROLE[permission])) throw new HttpError(403, `Your role (${caller.role}) does not allow ${permission}.`);
+}
+
+const isU16 = (v) => Number.isInteger(v) && v >= 0 && v <= 65535;
+const text = (v) => (typeof v === "string" ? v.trim() : "");
+const sameBeacon = (a, b) => a.uuid.toLowerCase() === b.uuid.toLowerCase() && a.major === b.major && a.minor === b.minor;
+
+/** Returns `{ asset }` or `{ error }`. The id and attribution are filled in by the caller. */
+function validateAsset(input) {
+  const assetType = text(input?.assetType);
+  const assetTag = text(input?.assetTag);
+  const jobsiteMajor = input?.jobsiteMajor;
+  const beacon = input?.beacon ?? {};
+  if (!assetType) return { error: "assetType is required." };
+  if (!assetTag) return { error: "assetTag is required." };
+  if (!isU16(jobsiteMajor)) return { error: "jobsiteMajor must be a whole number from 0 to 65535." };
+  if (!db.jobsites.some((j) => j.major === jobsiteMajor)) return { error: `Jobsite ${jobsiteMajor} does not exist.` };
+  if (!text(beacon.uuid)) return { error: "beacon.uuid is required." };
+  if (!isU16(beacon.major) || !isU16(beacon.minor)) return { error: "beacon.major and beacon.minor must be whole numbers from 0 to 65535." };
+
+  const asset = {
+    displayName: text(input.displayName) || `${assetType} – ${assetTag}`,
+    assetType,
+    assetTag,
+    jobsiteMajor,
+    locationHint: text(input.locationHint),
+    beacon: { uuid: text(beacon.uuid), major: beacon.major, minor: beacon.minor },
+  };
+  if (typeof input.simulate === "boolean") asset.simulate = input.simulate;
+  return { asset };
+}
+
+const CSV_COLUMNS = {
+  displayName: ["displayname", "name"],
+  assetType: ["assettype", "type"],
+  assetTag: ["assettag", "tag"],
+  jobsiteMajor: ["jobsitemajor", "jobsite", "major"],
+  minor: ["minor", "beaconminor"],
+  uuid: ["uuid", "beaconuuid"],
+  locationHint: ["locationhint", "location"],
+};
+const REQUIRED_CSV_COLUMNS = ["assetType", "assetTag", "jobsiteMajor", "minor"];
+
+function importCsv(csvText, caller) {
+  const [head, ...rows] = parseCsv(csvText);
+  if (!head) throw new HttpError(400, "The CSV file is empty.");
+
+  const names = head.fields.map((h) => h.trim().toLowerCase().replace(/[\s_-]+/g, ""));
+  const col = {};
+  for (const [field, aliases] of Object.entries(CSV_COLUMNS)) {
+    const i = names.findIndex((n) => aliases.includes(n));
+    if (i !== -1) col[field] = i;
+  }
+  const missing = REQUIRED_CSV_COLUMNS.filter((f) => col[f] == null);
+  if (missing.length) throw new HttpError(400, `The CSV file is missing columns: ${missing.join(", ")}.`);
+
+  const summary = { created: 0, skipped: 0, errors: 0, problems: [] };
+  rows.forEach(({ line, fields }) => {
+    const cell = (field) => (col[field] == null ? "" : String(fields[col[field]] ?? "").trim());
+    const major = Number(cell("jobsiteMajor"));
+    const { asset, error } = validateAsset({
+      displayName: cell("displayName"),
+      assetType: cell("assetType"),
+      assetTag: cell("assetTag"),
+      jobsiteMajor: cell("jobsiteMajor") ? major : NaN,
+      locationHint: cell("locationHint"),
+      beacon: { uuid: cell("uuid") || ORG_UUID, major, minor: cell("minor") ? Number(cell("minor")) : NaN },
+    });
+    if (error) {
+      summary.errors++;
+      summary.problems.push({ line, message: error });
+      return;
+    }
+    if (db.assets.some((a) => sameBeacon(a.beacon, asset.beacon))) {
+      summary.skipped++;
+      summary.problems.push({ line, message: `Beacon ${asset.beacon.major}/${asset.beacon.minor} is already commissioned.` });
+      return;
+    }
+    db.assets.push({ ...asset, id: randomUUID(), commissionedBy: caller.user });
+    summary.created++;
+  });
+  return summary;
+}
+
+function validateMovement(body) {
+  const ticketNumber = text(body?.ticketNumber);
+  if (!ticketNumber) return { error: "ticketNumber is required." };
+  if (!Array.isArray(body.barcodes) || !body.barcodes.length || body.barcodes.some((b) => !text(b))) return { error: "barcodes must be a non-empty list of strings." };
+  if (!text(body.status)) return { error: "status is required." };
+  if (!text(body.location)) return { error: "location is required." };
+  return { movement: { ticketNumber, barcodes: body.barcodes.map(text), status: text(body.status), location: text(body.location) } };
+}
+
+function validateFloorPlan(major, body) {
+  if (typeof body?.imageDataUrl !== "string" || !body.imageDataUrl.startsWith("data:image/")) return { error: "imageDataUrl must be an image data URL." };
+  if (!(body.aspect > 0) || !(body.widthMeters > 0)) return { error: "aspect and widthMeters must be positive numbers." };
+  if (!Array.isArray(body.placements)) return { error: "placements must be a list." };
+  const placements = body.placements.filter((p) => typeof p?.key === "string" && (p.kind === "asset" || p.kind === "anchor") && Number.isFinite(p.x) && Number.isFinite(p.y));
+  return { floorPlan: { jobsiteMajor: major, imageDataUrl: body.imageDataUrl, aspect: body.aspect, widthMeters: body.widthMeters, placements, updatedAt: new Date().toISOString() } };
+}
+
+function validateSighting(body) {
+  if (typeof body?.beaconKey !== "string" || !body.beaconKey) return { error: "beaconKey is required." };
+  for (const k of ["lat", "lon", "accuracy", "rssi", "meters", "ts"]) {
+    if (!Number.isFinite(body[k])) return { error: `${k} must be a number.` };
+  }
+  const { beaconKey, lat, lon, accuracy, rssi, meters, ts } = body;
+  return { sighting: { beaconKey, lat, lon, accuracy, rssi, meters, ts } };
+}
+
+function jobsiteMajorParam(raw) {
+  const major = Number(raw);
+  if (!isU16(major) || !db.jobsites.some((j) => j.major === major)) throw new HttpError(404, `Jobsite ${raw} not found.`);
+  return major;
+}
+
+async function handle(req, res, url) {
+  const path = url.pathname;
+  const method = req.method;
+  let m;
+
+  if (method === "GET" && path === "/api/health") return json(res, 200, { ok: true });
+
+  const caller = authenticate(req);
+
+  if (method === "GET" && path === "/api/me") return json(res, 200, { ...caller.user, roles: [caller.role] });
+
+  if (method === "GET" && path === "/api/jobsites") return json(res, 200, { jobsites: db.jobsites });
+
+  if (path === "/api/assets" && method === "GET") {
+    const raw = url.searchParams.get("major");
+    const major = raw == null || raw === "" ? null : Number(raw);
+    if (major != null && !isU16(major)) throw new HttpError(400, "major must be a whole number from 0 to 65535.");
+    return json(res, 200, { assets: major == null ? db.assets : db.assets.filter((a) => a.jobsiteMajor === major) });
+  }
+
+  if (path === "/api/assets" && method === "POST") {
+    requireRole(caller, "commission");
+    const { asset, error } = validateAsset(await readJson(req));
+    if (error) throw new HttpError(400, error);
+    const taken = db.assets.find((a) => sameBeacon(a.beacon, asset.beacon));
+    if (taken) throw new HttpError(409, `Beacon ${asset.beacon.major}/${asset.beacon.minor} is already commissioned as ${taken.displayName}.`);
+    const created = { ...asset, id: randomUUID(), commissionedBy: caller.user };
+    db.assets.push(created);
+    await store.save();
+    return json(res, 201, { asset: created });
+  }
+
+  if ((m = /^\/api\/assets\/([^/]+)$/.exec(path)) && method === "DELETE") {
+    requireRole(caller, "delete");
+    const id = decodeURIComponent(m[1]);
+    const i = db.assets.findIndex((a) => a.id === id);
+    if (i === -1) throw new HttpError(404, `Asset ${id} not found.`);
+    db.assets.splice(i, 1);
+    await store.save();
+    return send(res, 204, "");
+  }
+
+  if ((m = /^\/api\/tickets\/([^/]+)$/.exec(path)) && method === "GET") {
+    const ticketNumber = decodeURIComponent(m[1]);
+    const assets = db.tickets[ticketNumber];
+    if (!assets) throw new HttpError(404, `Ticket ${ticketNumber} not found.`);
+    return json(res, 200, { ticketNumber, assets });
+  }
+
+  if (path === "/api/asset-movements" && method === "GET") {
+    const movements = Object.values(db.movements).map((m) => m.movement);
+    return json(res, 200, { movements: movements.sort((a, b) => a.ts - b.ts) });
+  }
+
+  if (path === "/api/asset-movements" && method === "POST") {
+    const key = text(req.headers["idempotency-key"]);
+    const body = await readJson(req);
+    // A retried submission gets the original answer instead of being applied twice.
+    if (key && db.movements[key]) return json(res, 200, db.movements[key].result);
+
+    const { movement, error } = validateMovement(body);
+    if (error) throw new HttpError(400, error);
+    const ticket = db.tickets[movement.ticketNumber];
+    if (!ticket) throw new HttpError(404, `Ticket ${movement.ticketNumber} not found.`);
+
+    const assets = Array.from(new Set([...ticket, ...movement.barcodes]));
+    db.tickets[movement.ticketNumber] = assets;
+    const id = key || randomUUID();
+    const technician = AUTH ? caller.user : body.technician ?? caller.user;
+    const result = { attached: movement.barcodes.length, assets };
+    db.movements[id] = { movement: { ...movement, id, technician, ts: Date.now() }, result };
+    await store.save();
+    return json(res, 201, result);
+  }
+
+  if (path === "/api/import/assets" && method === "POST") {
+    requireRole(caller, "import");
+    const body = await readBody(req);
+    const type = req.headers["content-type"] || "";
+    let csvText;
+    if (type.startsWith("multipart/form-data")) {
+      const file = readMultipartFile(body, type);
+      if (!file) throw new HttpError(400, "Attach the CSV as a form field named file.");
+      csvText = file.data.toString("utf8");
+    } else {
+      csvText = body.toString("utf8");
+    }
+    const summary = importCsv(csvText, caller);
+    if (summary.created) await store.save();
+    return json(res, 200, summary);
+  }
+
+  if ((m = /^\/api\/jobsites\/([^/]+)\/floorplan$/.exec(path))) {
+    const major = jobsiteMajorParam(decodeURIComponent(m[1]));
+    if (method === "GET") {
+      const floorPlan = db.floorPlans[major];
+      if (!floorPlan) throw new HttpError(404, `Jobsite ${major} has no floor plan.`);
+      return json(res, 200, { floorPlan });
+    }
+    if (method === "PUT") {
+      requireRole(caller, "floorplan");
+      const { floorPlan, error } = validateFloorPlan(major, await readJson(req));
+      if (error) throw new HttpError(400, error);
+      db.floorPlans[major] = floorPlan;
+      await store.save();
+      return json(res, 200, { floorPlan });
+    }
+  }
+
+  if (path === "/api/sightings" && method === "POST") {
+    const { sighting, error } = validateSighting(await readJson(req));
+    if (error) throw new HttpError(400, error);
+    const list = [...(db.sightings[sighting.beaconKey] ?? []), { ...sighting, technician: caller.user }];
+    db.sightings[sighting.beaconKey] = list.slice(-MAX_SIGHTINGS_PER_BEACON);
+    // Every ranging fix from every technician lands here; rewriting the store (floor plan images included) each time is too much.
+    store.saveSoon();
+    return json(res, 201, { ok: true });
+  }
+
+  throw new HttpError(404, `No route for ${method} ${path}.`);
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204, "");
+  try {
+    await handle(req, res, new URL(req.url || "/", `http://localhost:${PORT}`));
+  } catch (e) {
+    if (e instanceof HttpError) return json(res, e.status, { error: e.message });
+    console.error(e);
+    json(res, 500, { error: "Internal server error." });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Reference API on http://localhost:${PORT} (${AUTH ? `tokens from ${OIDC_ISSUER}` : `auth off, anonymous ${ANON_ROLE}`}), data in ${DATA_FILE}`);
+});
+
+// Sightings are written in batches; keep the last few seconds' worth on Ctrl-C or a container stop.
+for (const signal of ["SIGINT", "SIGTERM"]) {
+  process.once(signal, async () => {
+    await store.flush();
+    process.exit(0);
+  });
+}
@@ -0,0 +1,53 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+// JSON file store for the reference server. The whole dataset lives in memory and is
+// rewritten after every change; writes go through a temp file so a crash never leaves half a file.
+// High-rate, low-value changes (sightings) use saveSoon, which folds a burst into one write.
+
+function fromSeed(seed) {
+  return {
+    jobsites: seed.jobsites ?? [],
+    assets: seed.assets ?? [],
+    tickets: seed.tickets ?? {},
+    movements: {},
+    floorPlans: {},
+    sightings: {},
+  };
+}
+
+export async function openStore(file, seedFile) {
+  let data;
+  try {
+    data = JSON.parse(await readFile(file, "utf8"));
+  } catch (e) {
+    if (e.code !== "ENOENT") throw e;
+    data = fromSeed(JSON.parse(await readFile(seedFile, "utf8")));
+  }
+
+  let writing = Promise.resolve();
+  let pending = null;
+  const save = () => {
+    clearTimeout(pending);
+    pending = null;
+    const snapshot = JSON.stringify(data, null, 2);
+    writing = writing
+      .catch(() => undefined)
+      .then(async () => {
+        await mkdir(dirname(file), { recursive: true });
+        await writeFile(`${file}.tmp`, snapshot);
+        await rename(`${file}.tmp`, file);
+      });
+    return writing;
+  };
+
+  const saveSoon = (delayMs = 5000) => {
+    pending ??= setTimeout(save, delayMs);
+  };
+
+  // Writes whatever saveSoon is still holding back.
+  const flush = () => (pending ? save() : writing);
+
+  await save();
+  return { data, save, saveSoon, flush };
+}
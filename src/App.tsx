@@ -2,10 +2,13 @@ import React, { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import {
   ArrowDownRight,
   ArrowRight,
+  ArrowUp,
   ArrowUpRight,
   ClipboardList,
   Cog,
   Home,
+  LogIn,
+  LogOut,
   Package,
   QrCode,
   Radar,
@@ -15,9 +18,39 @@ import {
   Server,
   Sun,
   Moon,
+  Trash2,
+  Volume2,
+  VolumeX,
   Wifi,
   X,
 } from "lucide-react";
+import type { Anchor, Asset, Beacon, Geo, Jobsite, MovementPayload, RangeState, Role } from "./types";
+import { API_BASE, ORG_UUID } from "./config";
+import { compassPoint, haversineMeters, headingFromOrientationEvent, headingJitterDeg, initialBearingDeg, isHeadingAccuracyPoor, normalizeDeg, type HeadingReading } from "./geo";
+import { clamp } from "./math";
+import { formatSyncedAt, loadReferenceCache, registerServiceWorker, saveReferenceCache } from "./offline";
+import { RANGE_FILTERS, RANGE_FILTER_KINDS, type RangeFilterKind } from "./beacon/filters";
+import { beaconKey } from "./beacon/key";
+import { DEFAULT_ENVIRONMENT_FACTOR, ENVIRONMENT_PRESETS } from "./beacon/ibeacon";
+import { createGeigerEngine, geigerCadence, vibrate, type GeigerEngine } from "./beacon/feedback";
+import { SCENARIOS, findScenario } from "./beacon/scenarios";
+import { addSighting, bestSighting, loadSightings, saveSightings, sightingFor, sightingUncertainty, type GeoFix, type Sighting } from "./beacon/sightings";
+import { freshAnchorRanges, trilaterate } from "./beacon/trilateration";
+import { anchorsOnPlan, fetchFloorPlan, loadPlanImage, metersToPlan, placeOnPlan, removeFromPlan, storeFloorPlan, type FloorPlan, type PlacementKind } from "./floorplan";
+import { BEACON_SOURCE_KINDS, createSimulatorSource, createWebBluetoothSource, type BeaconObservation, type BeaconSource, type BeaconSourceKind, type SimulatorSource } from "./beacon/source";
+import { REPLAY_SPEEDS, createReplaySource, createTraceRecorder, parseTrace, serializeTrace, type TraceRecord } from "./beacon/trace";
+import { canShareFiles, downloadText, shareText, timestampedName } from "./download";
+import { normalizeTag, parseBeaconQr, validateCommission, type CommissionErrors, type CommissionField } from "./commission";
+import { useBarcodeScanner, type BarcodeFormat, type ScanMode } from "./barcode";
+import { assetsTable, movementsTable, rangingTable, serializeTable, type ExportFormat, type ExportTable } from "./dataExport";
+import { ApiError, api, createApiClient, interceptRequests, setMockMode, type ApiClient, type ImportSummary } from "./api";
+import { isValidBaseUrl, loadActiveProfileId, loadProfiles, normalizeBaseUrl, saveActiveProfileId, saveProfiles, setActiveBaseUrl, type EnvProfile, type EnvProfileId } from "./environments";
+import { beginSignIn, completeSignInFromUrl, configureAuth, currentRole, currentSession, setServerRole, signInDemo, signOut, subscribeAuth } from "./auth";
+import { ROLES, ROLE_LABELS, can, deniedReason } from "./permissions";
+import { MOCK_BASE_URL, createMockApi } from "./mockApi";
+import { parseCsv, type CsvRow } from "./csv";
+import { IMPORT_FIELDS, guessMapping, importFile, missingFields, validateImportRows, type ColumnMapping, type ImportRowStatus } from "./assetImport";
+import { discardOutboxEntry, enqueueMovement, enqueueSighting, flushOutbox, idempotencyKey, isMovementEntry, listOutbox, nextRetryAt, retryOutboxEntry, type MovementEntry, type OutboxEntry, type OutboxResult } from "./outbox";
 
 type ThemeKey = "light" | "dark";
 
@@ -31,52 +64,24 @@ type Theme = {
   overlay: string;
 };
 
-type Jobsite = { major: number; name: string };
-
-type Beacon = { uuid: string; major: number; minor: number };
-
-type Asset = {
-  id: string;
-  displayName: string;
-  assetType: string;
-  assetTag: string;
-  jobsiteMajor: number;
-  locationHint?: string;
-  beacon: Beacon;
-  simulate?: boolean;
-};
+type DataMode = "checking" | "backend" | "offline" | "mock";
 
 type Route = "toolbox" | "beacon_home" | "beacon_app" | "deployment";
 
-type RangeState = {
-  samples: number[];
-  lastSeenMs: number;
-  emaMeters: number | null;
-  madMeters: number | null;
-  deltaMeters: number | null;
-  lastEmaMeters: number | null;
-  lastRssi: number | null;
-};
+type Screen = Route | "login";
 
 type Status = "In Stock" | "In Transit" | "In Use";
 
 type LocationOpt = "Birmingham Office" | "Atlanta Office" | "Jobsite Location";
 
-type Geo = { lat: number; lon: number };
-
 type Toast = { msg: string; ts: number };
 
-type BeaconTab = "nearby" | "commission" | "find";
+type BeaconTab = "nearby" | "plan" | "commission" | "find";
 
 type BadgeVariant = "default" | "secondary" | "destructive";
 
 type ButtonVariant = "default" | "secondary" | "destructive";
 
-type DetectorCtor = new (opts?: any) => { detect: (image: any) => Promise<any[]> };
-
-const API_BASE = "http://localhost:8080";
-const ORG_UUID = "2F234454-CF6D-4A0F-ADF2-F4911BA9FFA6";
-
 const THEMES: Record<ThemeKey, Theme> = {
   dark: {
     accent: "#22FAFA",
@@ -107,8 +112,24 @@ const MOCK: {
   ticketDB: Record<string, string[]>;
 } = {
   jobsites: [
-    { major: 23456, name: "23456 - BHM JS Tech II" },
-    { major: 9567, name: "09567 - Microsoft Data Center" },
+    {
+      major: 23456,
+      name: "23456 - BHM JS Tech II",
+      anchors: [
+        { label: "IDF-2", beacon: { uuid: ORG_UUID, major: 23456, minor: 901 }, x: 0, y: 0 },
+        { label: "MDF", beacon: { uuid: ORG_UUID, major: 23456, minor: 902 }, x: 24, y: 0 },
+        { label: "IDF-1", beacon: { uuid: ORG_UUID, major: 23456, minor: 903 }, x: 12, y: 18 },
+      ],
+    },
+    {
+      major: 9567,
+      name: "09567 - Microsoft Data Center",
+      anchors: [
+        { label: "Trailer", beacon: { uuid: ORG_UUID, major: 9567, minor: 911 }, x: 0, y: 0 },
+        { label: "IDF-1", beacon: { uuid: ORG_UUID, major: 9567, minor: 912 }, x: 30, y: 5 },
+        { label: "MDF", beacon: { uuid: ORG_UUID, major: 9567, minor: 913 }, x: 15, y: 25 },
+      ],
+    },
   ],
   beaconAssets: [
     {
@@ -165,6 +186,13 @@ const MOCK: {
   },
 };
 
+const mockApi = createMockApi(MOCK);
+interceptRequests(MOCK_BASE_URL, mockApi.fetch);
+
+// Probes and reference syncs always go to the profile's backend, whatever mode the shared client is in.
+const backendApi = createApiClient();
+const demoApi = createApiClient({ baseUrl: MOCK_BASE_URL });
+
 class ErrorBoundary extends React.Component<{ children: React.ReactNode }, { hasError: boolean; error?: any }> {
   constructor(props: any) {
     super(props);
@@ -227,8 +255,9 @@ function nowMs() {
   return Date.now();
 }
 
-function clamp(n: number, lo: number, hi: number) {
-  return Math.min(hi, Math.max(lo, n));
+/** Time on the source's clock, which a replay runs at its playback speed; ranging freshness is measured on it. */
+function sourceNowMs(source: BeaconSource) {
+  return source.now?.() ?? nowMs();
 }
 
 function ft(meters: number | null) {
@@ -243,57 +272,22 @@ function formatAge(ms: number | null) {
   return `${Math.round(s / 60)}m`;
 }
 
-function median(arr: number[]) {
-  if (!arr.length) return null;
-  const a = [...arr].sort((x, y) => x - y);
-  const mid = Math.floor(a.length / 2);
-  return a.length % 2 ? a[mid] : (a[mid - 1] + a[mid]) / 2;
-}
-
-function mad(arr: number[]) {
-  if (arr.length < 4) return null;
-  const med = median(arr);
-  if (med == null) return null;
-  const dev = arr.map((x) => Math.abs(x - med));
-  return median(dev);
-}
-
-function stabilityLabel(madMeters: number | null) {
+function stabilityLabel(madMeters: number | null, variance: number | null = null) {
   if (madMeters == null) return { label: "Warming up", variant: "secondary" as const };
-  if (madMeters < 0.25) return { label: "Stable", variant: "default" as const };
-  if (madMeters < 0.6) return { label: "Moderate", variant: "secondary" as const };
+  const sigma = variance == null ? 1.4826 * madMeters : Math.sqrt(variance);
+  if (sigma < 0.37) return { label: "Stable", variant: "default" as const };
+  if (sigma < 0.89) return { label: "Moderate", variant: "secondary" as const };
   return { label: "Unstable", variant: "destructive" as const };
 }
 
-function trendLabel(deltaMeters: number | null) {
+function trendLabel(deltaMeters: number | null, variance: number | null = null) {
   if (deltaMeters == null) return { Icon: ArrowRight, label: "Collecting" };
-  if (Math.abs(deltaMeters) < 0.2) return { Icon: ArrowRight, label: "Flat" };
+  const flat = variance == null ? 0.2 : clamp(0.5 * Math.sqrt(variance), 0.1, 0.2);
+  if (Math.abs(deltaMeters) < flat) return { Icon: ArrowRight, label: "Flat" };
   if (deltaMeters < 0) return { Icon: ArrowUpRight, label: "Getting closer" };
   return { Icon: ArrowDownRight, label: "Getting farther" };
 }
 
-function toRad(d: number) {
-  return (d * Math.PI) / 180;
-}
-
-function haversineMeters(a: Geo | null, b: Geo | null) {
-  if (!a || !b) return null;
-  const R = 6371000;
-  const dLat = toRad(b.lat - a.lat);
-  const dLon = toRad(b.lon - a.lon);
-  const lat1 = toRad(a.lat);
-  const lat2 = toRad(b.lat);
-  const s1 = Math.sin(dLat / 2);
-  const s2 = Math.sin(dLon / 2);
-  const h = s1 * s1 + Math.cos(lat1) * Math.cos(lat2) * s2 * s2;
-  const c = 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
-  return R * c;
-}
-
-function beaconKey(b: Beacon) {
-  return `${b.uuid}|${b.major}|${b.minor}`;
-}
-
 function Button({
   children,
   onClick,
@@ -578,8 +572,8 @@ function TabRow({ tab, setTab, disableFind }: { tab: BeaconTab; setTab: (t: Beac
         width: "100%",
         justifyContent: "center",
         borderRadius: 16,
-        padding: "10px 8px",
-        fontSize: 13,
+        padding: "10px 4px",
+        fontSize: 12,
         overflow: "hidden",
         textOverflow: "ellipsis",
         maxWidth: "100%",
@@ -589,8 +583,9 @@ function TabRow({ tab, setTab, disableFind }: { tab: BeaconTab; setTab: (t: Beac
     </Button>
   );
   return (
-    <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 8, maxWidth: "100%", minWidth: 0, overflow: "hidden" }}>
+    <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 6, maxWidth: "100%", minWidth: 0, overflow: "hidden" }}>
       {mk("Nearby", "nearby")}
+      {mk("Plan", "plan")}
       {mk("Commission", "commission")}
       {mk("Find", "find", disableFind)}
     </div>
@@ -605,7 +600,7 @@ function AvatarIcon({ assetType, theme }: { assetType: string; theme: Theme }) {
   return <Radar {...style} />;
 }
 
-function SettingsModal({ mode, importFile, setImportFile, importResult, onImport, onClose, theme, themeKey, setThemeKey }: any) {
+function SettingsModal({ mode, jobsites, onLoadAssets, onImport, exportSources, onClose, theme, themeKey, setThemeKey, beaconSources, beaconSourceKind, setBeaconSourceKind, sourceError, environmentFactor, setEnvironmentFactor, rangeFilterKind, setRangeFilterKind, trace, simulator, scenarioId, setScenarioId, syncedAt, offlineError, lastProbeAt, onProbe, onResetLocalData, envProfiles, envProfileId, onSaveEnvProfile, onActivateEnvProfile, session, role, onSignOut }: any) {
   return (
     <div
       role="dialog"
@@ -632,7 +627,9 @@ function SettingsModal({ mode, importFile, setImportFile, importResult, onImport
           padding: 16,
           boxShadow: "0 24px 60px rgba(0,0,0,0.25)",
           color: theme.text,
-          overflow: "hidden",
+          maxHeight: "calc(100dvh - 32px)",
+          overflowX: "hidden",
+          overflowY: "auto",
           minWidth: 0,
           fontFamily: "ui-rounded, ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial",
         }}
@@ -667,15 +664,146 @@ function SettingsModal({ mode, importFile, setImportFile, importResult, onImport
         <Separator />
 
         <div style={{ display: "flex", flexDirection: "column", gap: 10 }}>
-          <div style={{ fontWeight: 950 }}>Import beacon assets (CSV)</div>
-          <Input type="file" accept=".csv,text/csv" onChange={(e: any) => setImportFile(e.target.files?.[0] || null)} />
+          <div style={{ fontWeight: 950 }}>Beacon source</div>
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 8 }}>
+            {BEACON_SOURCE_KINDS.map((k) => {
+              const src: BeaconSource = beaconSources[k];
+              const caps = src.capabilities();
+              return (
+                <Button key={k} variant={beaconSourceKind === k ? "default" : "secondary"} onClick={() => setBeaconSourceKind(k)} disabled={!caps.supported} style={{ padding: "10px 8px", fontSize: 13 }}>
+                  {caps.realRadio ? <Radar style={{ height: 16, width: 16, color: theme.accent }} /> : <RefreshCw style={{ height: 16, width: 16, color: theme.accent }} />}
+                  {src.label}
+                </Button>
+              );
+            })}
+          </div>
+          {BEACON_SOURCE_KINDS.map((k) => {
+            const caps = beaconSources[k].capabilities();
+            return caps.supported ? null : (
+              <div key={k} style={{ fontSize: 12, color: theme.muted }}>
+                {beaconSources[k].label}: {caps.reason}
+              </div>
+            );
+          })}
+          {sourceError ? <div style={{ fontSize: 13, color: "rgba(220,38,38,0.95)" }}>{sourceError}</div> : null}
+          <div style={{ fontSize: 12, fontWeight: 950, color: theme.muted }}>Environment (path-loss n = {environmentFactor.toFixed(1)})</div>
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 8 }}>
+            {ENVIRONMENT_PRESETS.map((p) => (
+              <Button key={p.id} variant={environmentFactor === p.factor ? "default" : "secondary"} onClick={() => setEnvironmentFactor(p.factor)} style={{ padding: "10px 8px", fontSize: 13 }}>
+                {p.label}
+              </Button>
+            ))}
+          </div>
+          <div style={{ fontSize: 12, fontWeight: 950, color: theme.muted }}>Ranging filter</div>
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+            {RANGE_FILTER_KINDS.map((k) => (
+              <Button key={k} variant={rangeFilterKind === k ? "default" : "secondary"} onClick={() => setRangeFilterKind(k)}>
+                {RANGE_FILTERS[k].label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <Separator />
+
+        <div style={{ display: "flex", flexDirection: "column", gap: 10 }}>
+          <div style={{ fontWeight: 950 }}>Ranging trace</div>
           <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
-            <Button onClick={onImport} disabled={mode !== "backend"}>
-              Import
+            <Button variant={trace.recording ? "destructive" : "default"} onClick={trace.recording ? trace.onStopRecording : trace.onStartRecording}>
+              {trace.recording ? "Stop recording" : "Record"}
+            </Button>
+            <Button variant="secondary" onClick={trace.onDownload} disabled={!trace.count}>
+              Download
+            </Button>
+            <Badge variant="secondary">{trace.count} obs</Badge>
+          </div>
+          <div style={{ fontSize: 12, fontWeight: 950, color: theme.muted }}>Replay a trace (.jsonl)</div>
+          <Input type="file" accept=".jsonl,.ndjson,application/x-ndjson,text/plain" onChange={(e: any) => trace.onLoad(e.target.files?.[0] || null)} />
+          {trace.loadedCount ? (
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+              {REPLAY_SPEEDS.map((x) => (
+                <Button key={x} variant={trace.speed === x ? "default" : "secondary"} onClick={() => trace.setSpeed(x)} style={{ padding: "10px 12px" }}>
+                  {x}×
+                </Button>
+              ))}
+              <Badge variant="secondary">{trace.loadedCount} obs loaded</Badge>
+            </div>
+          ) : null}
+          {trace.message ? <div style={{ fontSize: 13, color: trace.message.ok ? theme.text : "rgba(220,38,38,0.95)" }}>{trace.message.message}</div> : null}
+        </div>
+
+        <Separator />
+
+        <ScenarioPanel simulator={simulator} scenarioId={scenarioId} setScenarioId={setScenarioId} active={beaconSourceKind === "simulator"} theme={theme} />
+
+        <Separator />
+
+        <AssetImportPanel
+          disabledReason={!can(role, "import") ? deniedReason("import") : mode === "offline" || mode === "checking" ? "Offline: import needs a connection." : null}
+          jobsites={jobsites}
+          onLoadAssets={onLoadAssets}
+          onImport={onImport}
+          theme={theme}
+        />
+
+        <Separator />
+
+        <ExportPanel sources={exportSources} theme={theme} />
+
+        <Separator />
+
+        <div style={{ display: "flex", flexDirection: "column", gap: 6, fontSize: 12, color: theme.muted }}>
+          <div style={{ fontWeight: 950, color: theme.text }}>Account</div>
+          {session ? (
+            <>
+              <div>
+                Signed in as <span style={{ fontWeight: 950, color: theme.text }}>{session.technician.name}</span>
+                {session.technician.email ? ` (${session.technician.email})` : ""}
+                {session.kind === "demo" ? " · demo account" : ""}
+              </div>
+              <div>
+                <Badge variant="secondary">Role: {ROLE_LABELS[role as Role]}</Badge>
+              </div>
+              <div>
+                <Button variant="secondary" onClick={onSignOut} style={{ padding: "8px 10px" }}>
+                  <LogOut style={{ height: 16, width: 16, color: theme.accent }} />
+                  Sign out
+                </Button>
+              </div>
+            </>
+          ) : (
+            <div>Not signed in.</div>
+          )}
+        </div>
+
+        <Separator />
+
+        <div style={{ display: "flex", flexDirection: "column", gap: 6, fontSize: 12, color: theme.muted }}>
+          <BackendProfilesPanel profiles={envProfiles} activeId={envProfileId} onSave={onSaveEnvProfile} onActivate={onActivateEnvProfile} theme={theme} />
+        </div>
+
+        <Separator />
+
+        <div style={{ display: "flex", flexDirection: "column", gap: 6, fontSize: 12, color: theme.muted }}>
+          <div style={{ fontWeight: 950, color: theme.text }}>Data</div>
+          <div>
+            Source: {mode === "backend" ? "Backend" : mode === "offline" ? "Offline (cached backend data)" : mode === "mock" ? "Mock (demo data saved on this device)" : "Checking…"}
+          </div>
+          <div>Last synced: {formatSyncedAt(syncedAt)}</div>
+          {offlineError ? <div style={{ color: "rgba(220,38,38,0.95)" }}>The app could not be set up for offline use: {offlineError}</div> : null}
+          <div>Last checked: {formatSyncedAt(lastProbeAt)} · rechecks every {PROBE_INTERVAL_MS / 1000} s</div>
+          <div>
+            <Button variant="secondary" onClick={onProbe} style={{ padding: "8px 10px" }}>
+              Check now
             </Button>
-            <Badge variant="secondary">UUID: {ORG_UUID}</Badge>
           </div>
-          {importResult ? <div style={{ fontSize: 13, color: importResult.ok ? theme.text : "rgba(220,38,38,0.95)" }}>{String(importResult.message || "")}</div> : null}
+          {mode === "mock" ? (
+            <div>
+              <Button variant="secondary" onClick={onResetLocalData} style={{ padding: "8px 10px" }}>
+                Reset demo data
+              </Button>
+            </div>
+          ) : null}
         </div>
 
         <Separator />
@@ -689,6 +817,331 @@ function SettingsModal({ mode, importFile, setImportFile, importResult, onImport
   );
 }
 
+type ConnectionTest = { state: "testing" } | { state: "ok"; ms: number } | { state: "error"; message: string };
+
+type ProfileDraft = { baseUrl: string; issuer: string };
+
+function BackendProfilesPanel({ profiles, activeId, onSave, onActivate, theme }: { profiles: EnvProfile[]; activeId: EnvProfileId; onSave: (id: EnvProfileId, draft: ProfileDraft) => void; onActivate: (id: EnvProfileId) => void; theme: Theme }) {
+  const [drafts, setDrafts] = useState<Partial<Record<EnvProfileId, ProfileDraft>>>({});
+  const [tests, setTests] = useState<Partial<Record<EnvProfileId, ConnectionTest>>>({});
+
+  const draftFor = (p: EnvProfile): ProfileDraft => drafts[p.id] ?? { baseUrl: p.baseUrl, issuer: p.issuer };
+  const editDraft = (p: EnvProfile, patch: Partial<ProfileDraft>) => setDrafts((prev) => ({ ...prev, [p.id]: { ...draftFor(p), ...patch } }));
+
+  const test = async (p: EnvProfile) => {
+    const url = normalizeBaseUrl(draftFor(p).baseUrl);
+    if (!isValidBaseUrl(url)) {
+      setTests((prev) => ({ ...prev, [p.id]: { state: "error", message: "Enter an http(s) URL first." } }));
+      return;
+    }
+    setTests((prev) => ({ ...prev, [p.id]: { state: "testing" } }));
+    const t0 = performance.now();
+    try {
+      await createApiClient({ baseUrl: url }).health();
+      setTests((prev) => ({ ...prev, [p.id]: { state: "ok", ms: Math.round(performance.now() - t0) } }));
+    } catch (e: any) {
+      setTests((prev) => ({ ...prev, [p.id]: { state: "error", message: String(e?.message || e) } }));
+    }
+  };
+
+  return (
+    <>
+      <div style={{ fontWeight: 950, color: theme.text }}>Backend</div>
+      {profiles.map((p) => {
+        const draft = draftFor(p);
+        const dirty = normalizeBaseUrl(draft.baseUrl) !== p.baseUrl || normalizeBaseUrl(draft.issuer) !== p.issuer;
+        const validUrl = (u: string) => u.trim() === "" || isValidBaseUrl(normalizeBaseUrl(u));
+        const valid = validUrl(draft.baseUrl) && validUrl(draft.issuer);
+        const t = tests[p.id];
+        return (
+          <div key={p.id} style={{ display: "flex", flexDirection: "column", gap: 6, borderRadius: 14, padding: "10px 12px", border: `1px solid ${theme.border}` }}>
+            <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+              <div style={{ fontWeight: 950, color: theme.text }}>{p.label}</div>
+              {p.id === activeId ? <Badge>Active</Badge> : null}
+            </div>
+            <Input value={draft.baseUrl} onChange={(e: any) => editDraft(p, { baseUrl: e.target.value })} placeholder="API: https://api.example.com" />
+            <Input value={draft.issuer} onChange={(e: any) => editDraft(p, { issuer: e.target.value })} placeholder="Sign-in issuer (optional)" />
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+              <Button variant="secondary" onClick={() => test(p)} disabled={t?.state === "testing"} style={{ padding: "8px 10px" }}>
+                Test connection
+              </Button>
+              {dirty ? (
+                <Button variant="secondary" onClick={() => onSave(p.id, { baseUrl: normalizeBaseUrl(draft.baseUrl), issuer: normalizeBaseUrl(draft.issuer) })} disabled={!valid} style={{ padding: "8px 10px" }}>
+                  Save
+                </Button>
+              ) : null}
+              {p.id !== activeId ? (
+                <Button onClick={() => onActivate(p.id)} disabled={dirty || !isValidBaseUrl(p.baseUrl)} style={{ padding: "8px 10px" }}>
+                  Use
+                </Button>
+              ) : null}
+            </div>
+            {t ? (
+              <div style={{ color: t.state === "error" ? "rgba(220,38,38,0.95)" : theme.muted }}>
+                {t.state === "testing" ? "Testing…" : t.state === "ok" ? `Connected (${t.ms} ms).` : t.message}
+              </div>
+            ) : null}
+          </div>
+        );
+      })}
+    </>
+  );
+}
+
+const IMPORT_PREVIEW_LIMIT = 100;
+
+const IMPORT_STATUS_LABELS: Record<ImportRowStatus, string> = { ready: "Ready", duplicate: "Duplicate", error: "Error" };
+
+function AssetImportPanel({ disabledReason, jobsites, onLoadAssets, onImport, theme }: { disabledReason: string | null; jobsites: Jobsite[]; onLoadAssets: () => Promise<Asset[]>; onImport: (file: File) => Promise<ImportSummary>; theme: Theme }) {
+  const [inputKey, setInputKey] = useState(0);
+  const [parsed, setParsed] = useState<{ header: string[]; rows: CsvRow[] } | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [existing, setExisting] = useState<Asset[]>([]);
+  // True until the existing assets for duplicate checks have loaded (or failed, with the warning shown).
+  const [loadingExisting, setLoadingExisting] = useState(false);
+  const pickRef = useRef(0);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const rows = useMemo(() => (parsed && mapping ? validateImportRows(parsed.rows, mapping, { jobsites, existing }) : []), [parsed, mapping, jobsites, existing]);
+  const missing = mapping ? missingFields(mapping) : [];
+  const counts = useMemo(() => {
+    const c: Record<ImportRowStatus, number> = { ready: 0, duplicate: 0, error: 0 };
+    for (const r of rows) c[r.status]++;
+    return c;
+  }, [rows]);
+  const shown = (problemsOnly ? rows.filter((r) => r.status !== "ready") : rows).slice(0, IMPORT_PREVIEW_LIMIT);
+
+  const clear = () => {
+    pickRef.current++;
+    setParsed(null);
+    setMapping(null);
+    setLoadingExisting(false);
+    setProblemsOnly(false);
+    setInputKey((k) => k + 1);
+  };
+
+  const pick = async (file: File | null) => {
+    setMessage(null);
+    if (!file) {
+      clear();
+      return;
+    }
+    const [header, ...data] = parseCsv(await file.text());
+    if (!header || !data.length) {
+      clear();
+      setMessage({ ok: false, message: "The file has no data rows. The first row must name the columns." });
+      return;
+    }
+    const pickId = ++pickRef.current;
+    setParsed({ header: header.fields, rows: data });
+    setMapping(guessMapping(header.fields));
+    setExisting([]);
+    setLoadingExisting(true);
+    try {
+      const assets = await onLoadAssets();
+      if (pickId === pickRef.current) setExisting(assets);
+    } catch (e: any) {
+      if (pickId === pickRef.current) setMessage({ ok: false, message: `Duplicates against existing assets were not checked: ${String(e?.message || e)}` });
+    } finally {
+      if (pickId === pickRef.current) setLoadingExisting(false);
+    }
+  };
+
+  const confirm = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const res = await onImport(importFile(rows));
+      const rejected = res.problems?.length ? ` Server: ${res.problems.map((p) => p.message).join(" ")}` : "";
+      setMessage({ ok: true, message: `Imported: ${res.created} created, ${res.skipped} skipped, ${res.errors} errors.${rejected}` });
+      clear();
+    } catch (e: any) {
+      setMessage({ ok: false, message: String(e?.message || e) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 10 }}>
+      <div style={{ fontWeight: 950 }}>Import beacon assets (CSV)</div>
+      <Input key={inputKey} type="file" accept=".csv,text/csv" onChange={(e: any) => pick(e.target.files?.[0] || null)} disabled={!!disabledReason || busy} />
+      {disabledReason ? <div style={{ fontSize: 12, color: theme.muted }}>{disabledReason}</div> : null}
+
+      {parsed && mapping ? (
+        <>
+          <div style={{ fontSize: 12, fontWeight: 950, color: theme.muted }}>Columns</div>
+          <div style={{ display: "grid", gridTemplateColumns: "minmax(0, 1fr) minmax(0, 1.4fr)", gap: 6, alignItems: "center", fontSize: 12 }}>
+            {IMPORT_FIELDS.map((f) => (
+              <React.Fragment key={f.field}>
+                <div style={{ fontWeight: 900, color: theme.text }}>
+                  {f.label}
+                  {f.required ? " *" : ""}
+                </div>
+                <Select value={mapping[f.field] == null ? "" : String(mapping[f.field])} onValueChange={(v) => setMapping({ ...mapping, [f.field]: v === "" ? null : Number(v) })} theme={theme}>
+                  <SelectItem value="">{f.field === "uuid" ? "Organisation UUID" : "— not in file —"}</SelectItem>
+                  {parsed.header.map((h, i) => (
+                    <SelectItem key={i} value={String(i)}>
+                      {h.trim() || `Column ${i + 1}`}
+                    </SelectItem>
+                  ))}
+                </Select>
+              </React.Fragment>
+            ))}
+          </div>
+
+          {missing.length ? (
+            <div style={{ fontSize: 12, color: "rgba(220,38,38,0.95)" }}>Choose a column for {missing.map((f) => f.label.toLowerCase()).join(", ")}.</div>
+          ) : (
+            <>
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+                <Badge>{counts.ready} ready</Badge>
+                <Badge variant={counts.duplicate ? "destructive" : "secondary"}>{counts.duplicate} duplicate</Badge>
+                <Badge variant={counts.error ? "destructive" : "secondary"}>{counts.error} with errors</Badge>
+                <Button variant="secondary" onClick={() => setProblemsOnly((v) => !v)} disabled={!counts.duplicate && !counts.error} style={{ padding: "6px 10px", fontSize: 12 }}>
+                  {problemsOnly ? "Show all rows" : "Show problems only"}
+                </Button>
+              </div>
+              <div style={{ display: "flex", flexDirection: "column", gap: 6, maxHeight: 260, overflowY: "auto" }}>
+                {shown.map((r) => (
+                  <div key={r.line} style={{ display: "flex", flexDirection: "column", gap: 2, fontSize: 12, borderRadius: 12, padding: "8px 10px", border: `1px solid ${theme.border}` }}>
+                    <div style={{ display: "flex", gap: 8, alignItems: "center", minWidth: 0 }}>
+                      <span style={{ color: theme.muted }}>Line {r.line}</span>
+                      <Badge variant={r.status === "ready" ? "secondary" : "destructive"}>{IMPORT_STATUS_LABELS[r.status]}</Badge>
+                      <span style={{ fontWeight: 900, color: theme.text, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                        {r.asset ? `${r.asset.displayName} · ${r.asset.beacon.major}/${r.asset.beacon.minor}` : ""}
+                      </span>
+                    </div>
+                    {r.issues.map((issue) => (
+                      <div key={issue} style={{ color: "rgba(220,38,38,0.95)" }}>
+                        {issue}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+                {shown.length < (problemsOnly ? counts.duplicate + counts.error : rows.length) ? <div style={{ fontSize: 12, color: theme.muted }}>Showing the first {IMPORT_PREVIEW_LIMIT} rows.</div> : null}
+              </div>
+            </>
+          )}
+
+          <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+            <Button onClick={confirm} disabled={busy || loadingExisting || !!disabledReason || !!missing.length || !counts.ready}>
+              {busy ? "Importing…" : loadingExisting ? "Checking existing assets…" : `Import ${counts.ready} row${counts.ready === 1 ? "" : "s"}`}
+            </Button>
+            <Button variant="secondary" onClick={clear} disabled={busy}>
+              Cancel
+            </Button>
+          </div>
+          {counts.duplicate || counts.error ? <div style={{ fontSize: 12, color: theme.muted }}>Rows with duplicates or errors are left out.</div> : null}
+        </>
+      ) : null}
+
+      <Badge variant="secondary" style={{ alignSelf: "flex-start" }}>
+        UUID: {ORG_UUID}
+      </Badge>
+      {message ? <div style={{ fontSize: 13, color: message.ok ? theme.text : "rgba(220,38,38,0.95)" }}>{message.message}</div> : null}
+    </div>
+  );
+}
+
+type ExportSource = { id: string; label: string; detail: string; disabledReason: string | null; load: () => Promise<ExportTable> };
+
+function ExportPanel({ sources, theme }: { sources: ExportSource[]; theme: Theme }) {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ ok: boolean; message: string } | null>(null);
+  const sharing = useMemo(() => canShareFiles(), []);
+
+  const run = async (src: ExportSource, share: boolean) => {
+    setBusy(src.id);
+    setMessage(null);
+    try {
+      const table = await src.load();
+      const out = serializeTable(table, format);
+      const shared = share && (await shareText(out.filename, out.text, out.mime));
+      if (!shared) downloadText(out.filename, out.text, out.mime);
+      const rows = `${table.rows.length} row${table.rows.length === 1 ? "" : "s"}`;
+      setMessage({ ok: true, message: share && !shared ? `${src.label}: sharing was not allowed, so the file was downloaded instead (${rows}).` : `${src.label}: ${rows} exported.` });
+    } catch (e: any) {
+      setMessage({ ok: false, message: `${src.label}: ${String(e?.message || e)}` });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 10 }}>
+      <div style={{ fontWeight: 950 }}>Export data</div>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+        {(["csv", "json"] as const).map((f) => (
+          <Button key={f} variant={format === f ? "default" : "secondary"} onClick={() => setFormat(f)}>
+            {f.toUpperCase()}
+          </Button>
+        ))}
+      </div>
+      {sources.map((src) => (
+        <div key={src.id} style={{ display: "flex", flexDirection: "column", gap: 6, borderRadius: 12, padding: "8px 10px", border: `1px solid ${theme.border}` }}>
+          <div style={{ fontWeight: 900, fontSize: 13 }}>{src.label}</div>
+          <div style={{ fontSize: 12, color: theme.muted }}>{src.disabledReason ?? src.detail}</div>
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+            <Button variant="secondary" onClick={() => run(src, false)} disabled={!!busy || !!src.disabledReason} style={{ padding: "8px 10px" }}>
+              {busy === src.id ? "Exporting…" : "Download"}
+            </Button>
+            {sharing ? (
+              <Button variant="secondary" onClick={() => run(src, true)} disabled={!!busy || !!src.disabledReason} style={{ padding: "8px 10px" }}>
+                Share
+              </Button>
+            ) : null}
+          </div>
+        </div>
+      ))}
+      {message ? <div style={{ fontSize: 13, color: message.ok ? theme.text : "rgba(220,38,38,0.95)" }}>{message.message}</div> : null}
+    </div>
+  );
+}
+
+function ScenarioPanel({ simulator, scenarioId, setScenarioId, active, theme }: { simulator: SimulatorSource; scenarioId: string | null; setScenarioId: (id: string | null) => void; active: boolean; theme: Theme }) {
+  const [, setTick] = useState(0);
+  const scenario = findScenario(scenarioId);
+
+  useEffect(() => {
+    if (!scenario) return;
+    const id = window.setInterval(() => setTick((t) => t + 1), 500);
+    return () => window.clearInterval(id);
+  }, [scenario]);
+
+  const status = scenario ? simulator.scenarioStatus() : null;
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 10 }}>
+      <div style={{ fontWeight: 950 }}>Developer: simulator scenario</div>
+      <Select value={scenarioId ?? ""} onValueChange={(v) => setScenarioId(v || null)} theme={theme}>
+        <SelectItem value="">Default drift</SelectItem>
+        {SCENARIOS.map((x) => (
+          <SelectItem key={x.id} value={x.id}>
+            {x.label}
+          </SelectItem>
+        ))}
+      </Select>
+      {scenario ? <div style={{ fontSize: 12, color: theme.muted }}>{scenario.description}</div> : null}
+      {status ? (
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+          <Badge variant="secondary">
+            Phase {status.phaseIndex + 1}/{status.scenario.phases.length}: {status.phase.label} • {formatAge(status.phase.durationMs - status.phaseElapsedMs)} left
+          </Badge>
+          <Button variant="secondary" onClick={() => simulator.restartScenario()} style={{ padding: "10px 12px" }}>
+            <RefreshCw style={{ height: 16, width: 16, color: theme.accent }} />
+            Restart
+          </Button>
+        </div>
+      ) : null}
+      {!active ? <div style={{ fontSize: 12, color: theme.muted }}>Scenarios apply when the beacon source is Simulator.</div> : null}
+    </div>
+  );
+}
+
 function TileButton({ title, subtitle, icon, onClick, theme }: any) {
   return (
     <button
@@ -734,85 +1187,413 @@ function TileButton({ title, subtitle, icon, onClick, theme }: any) {
   );
 }
 
-function useBackendOrMock() {
-  const [mode, setMode] = useState<"checking" | "backend" | "mock">("checking");
+const PROBE_INTERVAL_MS = 20000;
+const TRANSITION_BADGE_MS = 5000;
+
+type ModeTransition = { from: DataMode; to: DataMode; at: number };
+
+function useConnectionManager(baseUrl: string) {
+  const [mode, setMode] = useState<DataMode>("checking");
   const [jobsites, setJobsites] = useState<Jobsite[]>([]);
   const [beaconAssets, setBeaconAssets] = useState<Asset[]>([]);
+  const [syncedAt, setSyncedAt] = useState<number | null>(() => loadReferenceCache()?.syncedAt ?? null);
+  const [transition, setTransition] = useState<ModeTransition | null>(null);
+  const [lastProbeAt, setLastProbeAt] = useState<number | null>(null);
+
+  const [dataError, setDataError] = useState<string | null>(null);
+
+  const modeRef = useRef<DataMode>("checking");
+  const generationRef = useRef(0);
+  const probingRef = useRef(-1);
+
+  const switchMode = useCallback((next: DataMode) => {
+    const prev = modeRef.current;
+    modeRef.current = next;
+    setMockMode(next === "mock");
+    setMode(next);
+    if (prev !== next && prev !== "checking") setTransition({ from: prev, to: next, at: nowMs() });
+  }, []);
 
-  useEffect(() => {
-    let cancelled = false;
-    (async () => {
+  const fallBack = useCallback(
+    async (stale: () => boolean) => {
+      const cache = loadReferenceCache();
+      if (cache) {
+        setJobsites(cache.jobsites);
+        setBeaconAssets(cache.assets);
+        setSyncedAt(cache.syncedAt);
+        switchMode("offline");
+        return;
+      }
       try {
-        const r = await fetch(`${API_BASE}/api/health`);
-        if (!r.ok) throw new Error("health not ok");
-        const j = await (await fetch(`${API_BASE}/api/jobsites`)).json();
-        const a = await (await fetch(`${API_BASE}/api/assets`)).json();
-        if (cancelled) return;
-        setJobsites(j.jobsites || []);
-        setBeaconAssets(a.assets || []);
-        setMode("backend");
+        const j = await demoApi.listJobsites();
+        const a = await demoApi.listAssets();
+        if (stale()) return;
+        setJobsites(j);
+        setBeaconAssets(a);
       } catch {
-        if (cancelled) return;
+        if (stale()) return;
         setJobsites(MOCK.jobsites);
         setBeaconAssets(MOCK.beaconAssets);
-        setMode("mock");
       }
-    })();
+      switchMode("mock");
+    },
+    [switchMode]
+  );
+
+  const probe = useCallback(async () => {
+    const gen = generationRef.current;
+    if (probingRef.current === gen) return;
+    probingRef.current = gen;
+    const stale = () => gen !== generationRef.current;
+
+    try {
+      let healthy = true;
+      try {
+        await backendApi.health();
+      } catch {
+        healthy = false;
+      }
+      if (stale()) return;
+      setLastProbeAt(nowMs());
+
+      if (!healthy) {
+        if (modeRef.current === "checking" || modeRef.current === "backend") await fallBack(stale);
+        return;
+      }
+      if (modeRef.current === "backend") return;
+
+      try {
+        const j = await backendApi.listJobsites();
+        const a = await backendApi.listAssets();
+        if (stale()) return;
+        setJobsites(j);
+        setBeaconAssets(a);
+        setSyncedAt(saveReferenceCache({ jobsites: j, assets: a })?.syncedAt ?? nowMs());
+        setDataError(null);
+        switchMode("backend");
+      } catch (e: any) {
+        if (stale()) return;
+        // The backend answered but sent something unusable: stay connected and say what was wrong.
+        if (e instanceof ApiError && (e.kind === "invalid_response" || e.kind === "http")) {
+          setDataError(e.message);
+          switchMode("backend");
+          return;
+        }
+        if (modeRef.current === "checking") await fallBack(stale);
+      }
+    } finally {
+      if (probingRef.current === gen) probingRef.current = -1;
+    }
+  }, [fallBack, switchMode]);
+
+  useEffect(() => {
+    generationRef.current += 1;
+    setActiveBaseUrl(baseUrl);
+    modeRef.current = "checking";
+    setMockMode(false);
+    setMode("checking");
+    setTransition(null);
+    setDataError(null);
+    setSyncedAt(loadReferenceCache()?.syncedAt ?? null);
+    probe();
+  }, [baseUrl, probe]);
+
+  useEffect(() => {
+    const visible = () => typeof document === "undefined" || document.visibilityState === "visible";
+    const onVisibility = () => {
+      if (visible()) probe();
+    };
+    const onNetwork = () => {
+      probe();
+    };
+    const id = window.setInterval(() => {
+      if (visible()) probe();
+    }, PROBE_INTERVAL_MS);
+
+    window.addEventListener("online", onNetwork);
+    window.addEventListener("offline", onNetwork);
+    document.addEventListener("visibilitychange", onVisibility);
     return () => {
-      cancelled = true;
+      window.clearInterval(id);
+      window.removeEventListener("online", onNetwork);
+      window.removeEventListener("offline", onNetwork);
+      document.removeEventListener("visibilitychange", onVisibility);
     };
+  }, [probe]);
+
+  useEffect(() => {
+    if (!transition) return;
+    const t = window.setTimeout(() => setTransition(null), TRANSITION_BADGE_MS);
+    return () => window.clearTimeout(t);
+  }, [transition]);
+
+  const recordSync = useCallback((assets: Asset[]) => {
+    setSyncedAt(saveReferenceCache({ assets })?.syncedAt ?? nowMs());
   }, []);
 
-  return { mode, jobsites, beaconAssets, setBeaconAssets };
-}
+  // In mock mode the shared client is answered by the in-browser demo API, so callers need no mode checks.
+  const client: ApiClient | null = mode === "backend" || mode === "mock" ? api : null;
 
-function ToolboxHome({ headerBadge, onOpenBeacon, onOpenDeployment, onOpenSettings, theme }: any) {
-  return (
-    <PhoneFrame
-      theme={theme}
-      bottomBar={
-        <BottomNav
-          left={<div />}
-          center={headerBadge}
-          right={
-            <Button variant="secondary" onClick={onOpenSettings} style={{ padding: "10px 12px" }}>
-              <Cog style={{ height: 16, width: 16, color: theme.accent }} />
-              Settings
-            </Button>
-          }
-        />
-      }
-    >
-      <Header
-        title="Virtual Toolbox"
-        subtitle="Select a tool."
-        theme={theme}
-        leftGlyph={<BrandMark size={18} theme={theme} />}
-      />
+  const resetLocalData = useCallback(async () => {
+    await mockApi.reset();
+    setJobsites(await demoApi.listJobsites());
+    setBeaconAssets(await demoApi.listAssets());
+  }, []);
 
-      <div style={{ display: "flex", flexDirection: "column", gap: 12, width: "100%", minWidth: 0, maxWidth: "100%" }}>
-        <TileButton title="Beacon Finder" subtitle="List nearby assets and open a Find view." icon={<Radar style={{ height: 22, width: 22 }} />} onClick={onOpenBeacon} theme={theme} />
-        <TileButton title="Asset Deployment" subtitle="Scan barcodes and submit a deployment form." icon={<ScanLine style={{ height: 22, width: 22 }} />} onClick={onOpenDeployment} theme={theme} />
-      </div>
-    </PhoneFrame>
-  );
+  return { mode, transition, lastProbeAt, probe, client, jobsites, beaconAssets, setBeaconAssets, syncedAt, recordSync, resetLocalData, dataError, setDataError };
 }
 
-function BeaconHome({ headerBadge, jobsites, selectedMajor, setSelectedMajor, onEnter, onGoToolbox, onOpenSettings, theme }: any) {
-  return (
-    <PhoneFrame
-      theme={theme}
-      bottomBar={
-        <BottomNav
-          left={
-            <Button variant="secondary" onClick={onGoToolbox} style={{ padding: "10px 12px" }}>
-              <Home style={{ height: 16, width: 16, color: theme.accent }} />
-              Home
-            </Button>
-          }
-          center={headerBadge}
-          right={
-            <Button variant="secondary" onClick={onOpenSettings} style={{ padding: "10px 12px" }}>
+function useOutbox(mode: DataMode) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const enabled = mode !== "checking";
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listOutbox());
+      setError(null);
+    } catch (e: any) {
+      setError(String(e?.message || e));
+    }
+  }, []);
+
+  const flush = useCallback(async (): Promise<OutboxResult[]> => {
+    try {
+      const results = await flushOutbox();
+      await refresh();
+      return results;
+    } catch (e: any) {
+      setError(String(e?.message || e));
+      return [];
+    }
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Also re-runs when the connection manager moves from offline back to backend.
+  useEffect(() => {
+    if (!enabled) return;
+    flush();
+    const onOnline = () => {
+      flush();
+    };
+    window.addEventListener("online", onOnline);
+    return () => window.removeEventListener("online", onOnline);
+  }, [mode, enabled, flush]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const next = nextRetryAt(entries);
+    if (next == null) return;
+    const t = window.setTimeout(() => {
+      flush();
+    }, Math.max(0, next - Date.now()));
+    return () => window.clearTimeout(t);
+  }, [enabled, entries, flush]);
+
+  const submit = useCallback(
+    async (payload: MovementPayload) => {
+      const entry = await enqueueMovement(payload);
+      const results = await flush();
+      return results.find((r) => r.id === entry.id) ?? null;
+    },
+    [flush]
+  );
+
+  const queueSighting = useCallback(
+    async (sighting: Sighting) => {
+      const entry = await enqueueSighting(sighting);
+      const results = await flush();
+      return results.find((r) => r.id === entry.id) ?? null;
+    },
+    [flush]
+  );
+
+  const retry = useCallback(
+    async (id: string) => {
+      await retryOutboxEntry(id);
+      await flush();
+    },
+    [flush]
+  );
+
+  const discard = useCallback(
+    async (id: string) => {
+      await discardOutboxEntry(id);
+      await refresh();
+    },
+    [refresh]
+  );
+
+  // Sightings are queued silently; Pending uploads lists only what a technician submitted.
+  const movements = useMemo(() => entries.filter(isMovementEntry), [entries]);
+
+  return { entries: movements, error, submit, queueSighting, retry, discard };
+}
+
+function urlHost(url: string) {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function useAuth(issuer: string) {
+  const [, setVersion] = useState(0);
+  const [completing, setCompleting] = useState(() => /[?&](code|error)=/.test(window.location.search));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribeAuth(() => setVersion((v) => v + 1)), []);
+
+  useEffect(() => {
+    configureAuth(issuer);
+  }, [issuer]);
+
+  useEffect(() => {
+    let cancelled = false;
+    completeSignInFromUrl()
+      .catch((e: any) => {
+        if (!cancelled) setError(String(e?.message || e));
+      })
+      .finally(() => {
+        if (!cancelled) setCompleting(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const signIn = useCallback(async () => {
+    setError(null);
+    try {
+      await beginSignIn();
+    } catch (e: any) {
+      setError(String(e?.message || e));
+    }
+  }, []);
+
+  const startDemo = useCallback((name: string, role: Role) => {
+    setError(null);
+    signInDemo(name, role);
+  }, []);
+
+  return { session: currentSession(), role: currentRole(), completing, error, signIn, signInDemo: startDemo, signOut };
+}
+
+function LoginScreen({ headerBadge, issuer, allowDemo, completing, error, onSignIn, onDemo, onOpenSettings, theme }: any) {
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<Role>("technician");
+
+  return (
+    <PhoneFrame
+      theme={theme}
+      bottomBar={
+        <BottomNav
+          left={<div />}
+          center={headerBadge}
+          right={
+            <Button variant="secondary" onClick={onOpenSettings} style={{ padding: "10px 12px" }}>
+              <Cog style={{ height: 16, width: 16, color: theme.accent }} />
+              Settings
+            </Button>
+          }
+        />
+      }
+    >
+      <Header title="Sign in" subtitle="Your name is recorded on commissions, imports and deployments." theme={theme} leftGlyph={<BrandMark size={18} theme={theme} />} />
+
+      <SurfaceCard theme={theme}>
+        <div style={{ display: "flex", flexDirection: "column", gap: 12, minWidth: 0 }}>
+          {completing ? <div style={{ fontSize: 13, color: theme.muted }}>Finishing sign-in…</div> : null}
+
+          {issuer ? (
+            <>
+              <Button onClick={onSignIn} disabled={completing}>
+                <LogIn style={{ height: 16, width: 16, color: theme.accent }} />
+                Sign in
+              </Button>
+              <div style={{ fontSize: 12, color: theme.muted }}>Signs in with {urlHost(issuer)}.</div>
+            </>
+          ) : (
+            <div style={{ fontSize: 13, color: theme.muted }}>Sign-in is not configured for this backend. Set an issuer in Settings → Backend.</div>
+          )}
+
+          {allowDemo ? (
+            <>
+              <Separator />
+              <div style={{ fontSize: 12, fontWeight: 950, color: theme.muted }}>Demo account</div>
+              <Input value={name} onChange={(e: any) => setName(e.target.value)} placeholder="Your name" />
+              <Select value={role} onValueChange={(v: string) => setRole(v as Role)} theme={theme}>
+                {ROLES.map((r) => (
+                  <SelectItem key={r} value={r}>
+                    {ROLE_LABELS[r]}
+                  </SelectItem>
+                ))}
+              </Select>
+              <Button variant="secondary" onClick={() => onDemo(name, role)} disabled={completing}>
+                Use demo account
+              </Button>
+              <div style={{ fontSize: 12, color: theme.muted }}>Works with the demo data on this device only.</div>
+            </>
+          ) : null}
+
+          {error ? <div style={{ fontSize: 13, color: "rgba(220,38,38,0.95)" }}>{error}</div> : null}
+        </div>
+      </SurfaceCard>
+    </PhoneFrame>
+  );
+}
+
+function ToolboxHome({ headerBadge, onOpenBeacon, onOpenDeployment, onOpenSettings, theme }: any) {
+  return (
+    <PhoneFrame
+      theme={theme}
+      bottomBar={
+        <BottomNav
+          left={<div />}
+          center={headerBadge}
+          right={
+            <Button variant="secondary" onClick={onOpenSettings} style={{ padding: "10px 12px" }}>
+              <Cog style={{ height: 16, width: 16, color: theme.accent }} />
+              Settings
+            </Button>
+          }
+        />
+      }
+    >
+      <Header
+        title="Virtual Toolbox"
+        subtitle="Select a tool."
+        theme={theme}
+        leftGlyph={<BrandMark size={18} theme={theme} />}
+      />
+
+      <div style={{ display: "flex", flexDirection: "column", gap: 12, width: "100%", minWidth: 0, maxWidth: "100%" }}>
+        <TileButton title="Beacon Finder" subtitle="List nearby assets and open a Find view." icon={<Radar style={{ height: 22, width: 22 }} />} onClick={onOpenBeacon} theme={theme} />
+        <TileButton title="Asset Deployment" subtitle="Scan barcodes and submit a deployment form." icon={<ScanLine style={{ height: 22, width: 22 }} />} onClick={onOpenDeployment} theme={theme} />
+      </div>
+    </PhoneFrame>
+  );
+}
+
+function BeaconHome({ dataError, headerBadge, jobsites, selectedMajor, setSelectedMajor, onEnter, onGoToolbox, onOpenSettings, theme }: any) {
+  return (
+    <PhoneFrame
+      theme={theme}
+      bottomBar={
+        <BottomNav
+          left={
+            <Button variant="secondary" onClick={onGoToolbox} style={{ padding: "10px 12px" }}>
+              <Home style={{ height: 16, width: 16, color: theme.accent }} />
+              Home
+            </Button>
+          }
+          center={headerBadge}
+          right={
+            <Button variant="secondary" onClick={onOpenSettings} style={{ padding: "10px 12px" }}>
               <Cog style={{ height: 16, width: 16, color: theme.accent }} />
               Settings
             </Button>
@@ -822,6 +1603,8 @@ function BeaconHome({ headerBadge, jobsites, selectedMajor, setSelectedMajor, on
     >
       <Header title="Beacon Finder" subtitle="Choose a project." theme={theme} leftGlyph={<Radar style={{ height: 18, width: 18, color: theme.accent }} />} />
 
+      <DataErrorNotice error={dataError} theme={theme} />
+
       <SurfaceCard theme={theme}>
         <div style={{ display: "flex", flexDirection: "column", gap: 12, minWidth: 0, maxWidth: "100%" }}>
           <div style={{ fontWeight: 950, fontSize: 13, color: theme.muted }}>Project</div>
@@ -852,8 +1635,8 @@ function NearbyList({ rows, jobsiteName, onFind, theme }: any) {
       {rows.length === 0 ? <div style={{ fontSize: 13, color: theme.muted }}>No assets match the current filter.</div> : null}
       {rows.map((row: any) => {
         const feet = ft(row.meters);
-        const st = stabilityLabel(row.madMeters);
-        const tr = trendLabel(row.deltaMeters);
+        const st = stabilityLabel(row.madMeters, row.variance);
+        const tr = trendLabel(row.deltaMeters, row.variance);
         const TrendIcon = tr.Icon;
 
         return (
@@ -909,26 +1692,163 @@ function NearbyList({ rows, jobsiteName, onFind, theme }: any) {
   );
 }
 
-function FindScreen({ selectedRow, selectedState, onBack, simTargetKey, setSimTargetKey, theme, targetGeo }: any) {
-  const [geoPos, setGeoPos] = useState<Geo | null>(null);
-  const [geoAcc, setGeoAcc] = useState<number | null>(null);
-  const [geoErr, setGeoErr] = useState<string | null>(null);
+function useProximityFeedback({ enabled, muted, meters, live, stability, trend }: { enabled: boolean; muted: boolean; meters: number | null; live: boolean; stability: string; trend: string }) {
+  const engineRef = useRef<GeigerEngine | null>(null);
+  const audibleMetersRef = useRef<number | null>(null);
+  const lastTrendRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    audibleMetersRef.current = enabled && !muted && live && stability !== "Warming up" ? meters : null;
+  }, [enabled, muted, live, stability, meters]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const engine = engineRef.current;
+    if (!engine) return;
+
+    let timer: number | null = null;
+    const loop = () => {
+      const m = audibleMetersRef.current;
+      if (m == null) {
+        timer = window.setTimeout(loop, 250) as any;
+        return;
+      }
+      const cadence = geigerCadence(m);
+      engine.click(cadence.frequency);
+      timer = window.setTimeout(loop, cadence.intervalMs) as any;
+    };
+    loop();
+
+    return () => {
+      if (timer != null) window.clearTimeout(timer);
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled) {
+      lastTrendRef.current = null;
+      return;
+    }
+    if (!live || stability === "Warming up") return;
+    if (trend !== "Getting closer" && trend !== "Getting farther") return;
+    const prev = lastTrendRef.current;
+    lastTrendRef.current = trend;
+    if (prev && prev !== trend) vibrate(trend === "Getting closer" ? 90 : [40, 60, 40]);
+  }, [enabled, live, stability, trend]);
+
+  useEffect(() => {
+    return () => {
+      engineRef.current?.close();
+      engineRef.current = null;
+    };
+  }, []);
+
+  const activate = useCallback(async () => {
+    engineRef.current ||= createGeigerEngine();
+    if (!engineRef.current) return false;
+    try {
+      await engineRef.current.resume();
+      return true;
+    } catch {
+      return false;
+    }
+  }, []);
+
+  return { activate };
+}
+
+// About two seconds of readings at the 10 Hz the hook samples.
+const HEADING_JITTER_SAMPLES = 20;
+// Jitter of ~8° between readings is as unreliable as iOS's 25° accuracy threshold.
+const HEADING_JITTER_TO_ACCURACY = 3;
+
+type CompassStatus = "idle" | "needs_permission" | "active" | "denied" | "unsupported";
+
+function useCompassHeading(active: boolean) {
+  const [status, setStatus] = useState<CompassStatus>("idle");
+  const [reading, setReading] = useState<HeadingReading | null>(null);
+  const [granted, setGranted] = useState(false);
+
+  const Orientation: any = typeof window === "undefined" ? null : (window as any).DeviceOrientationEvent;
+  const needsPermission = typeof Orientation?.requestPermission === "function";
 
   useEffect(() => {
-    setGeoErr(null);
+    if (!active) return;
+    if (!Orientation) {
+      setStatus("unsupported");
+      return;
+    }
+    if (needsPermission && !granted) {
+      setStatus("needs_permission");
+      return;
+    }
+
+    let gotReading = false;
+    let lastUpdate = 0;
+    const recent: number[] = [];
+    const onOrientation = (ev: any) => {
+      const r = headingFromOrientationEvent(ev);
+      if (!r) return;
+      gotReading = true;
+      const now = Date.now();
+      if (now - lastUpdate < 100) return;
+      lastUpdate = now;
+      recent.push(r.heading);
+      if (recent.length > HEADING_JITTER_SAMPLES) recent.shift();
+      // Only iOS reports accuracy; elsewhere a jittery heading is the sign the compass needs calibrating.
+      const jitter = r.accuracy == null ? headingJitterDeg(recent) : null;
+      setReading(jitter == null ? r : { ...r, accuracy: jitter * HEADING_JITTER_TO_ACCURACY });
+      setStatus("active");
+    };
+
+    const hasAbsolute = "ondeviceorientationabsolute" in window;
+    window.addEventListener(hasAbsolute ? "deviceorientationabsolute" : "deviceorientation", onOrientation as any);
+    const timeout = window.setTimeout(() => {
+      if (!gotReading) setStatus("unsupported");
+    }, 3000);
+
+    return () => {
+      window.clearTimeout(timeout);
+      window.removeEventListener(hasAbsolute ? "deviceorientationabsolute" : "deviceorientation", onOrientation as any);
+    };
+  }, [active, Orientation, needsPermission, granted]);
+
+  const requestPermission = useCallback(async () => {
+    try {
+      const result = await Orientation.requestPermission();
+      if (result === "granted") {
+        setGranted(true);
+        setStatus("idle");
+      } else {
+        setStatus("denied");
+      }
+    } catch {
+      setStatus("denied");
+    }
+  }, [Orientation]);
+
+  return { status, reading, requestPermission };
+}
+
+function useGeoWatch(active: boolean) {
+  const [fix, setFix] = useState<GeoFix | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!active) return;
+    setError(null);
     if (typeof navigator === "undefined" || !navigator.geolocation) {
-      setGeoErr("Geolocation not available.");
+      setError("Geolocation not available.");
       return;
     }
 
     const watchId = navigator.geolocation.watchPosition(
       (p) => {
-        setGeoPos({ lat: p.coords.latitude, lon: p.coords.longitude });
-        setGeoAcc(p.coords.accuracy);
-        setGeoErr(null);
+        setFix({ lat: p.coords.latitude, lon: p.coords.longitude, accuracy: p.coords.accuracy, ts: p.timestamp || nowMs() });
+        setError(null);
       },
       (e) => {
-        setGeoErr(e?.message || "Location permission denied or unavailable.");
+        setError(e?.message || "Location permission denied or unavailable.");
       },
       { enableHighAccuracy: true, maximumAge: 500, timeout: 15000 }
     );
@@ -940,22 +1860,66 @@ function FindScreen({ selectedRow, selectedState, onBack, simTargetKey, setSimTa
         return;
       }
     };
-  }, [selectedRow?.key]);
+  }, [active]);
 
-  const st = stabilityLabel(selectedState?.madMeters ?? null);
-  const tr = trendLabel(selectedState?.deltaMeters ?? null);
+  return { fix, error };
+}
+
+function FindScreen({ selectedRow, selectedState, now, position, onBack, onDelete, steerable, simTargetKey, setSimTargetKey, theme, geo, sighting }: any) {
+  const geoPos: Geo | null = geo.fix ? { lat: geo.fix.lat, lon: geo.fix.lon } : null;
+  const geoAcc: number | null = geo.fix?.accuracy ?? null;
+  const geoErr: string | null = geo.error;
+  const targetGeo: Geo | null = useMemo(() => (sighting ? { lat: sighting.lat, lon: sighting.lon } : null), [sighting]);
+
+  const st = stabilityLabel(selectedState?.madMeters ?? null, selectedState?.variance ?? null);
+  const tr = trendLabel(selectedState?.deltaMeters ?? null, selectedState?.variance ?? null);
   const TrendIcon = tr.Icon;
 
-  const isLive = selectedState ? nowMs() - selectedState.lastSeenMs <= 3000 : false;
+  const isLive = selectedState ? now - selectedState.lastSeenMs <= 3000 : false;
   const selectedFeet = isLive ? ft(selectedState?.emaMeters ?? null) : null;
 
   const gpsMeters = useMemo(() => {
     if (!geoPos || !targetGeo) return null;
     return haversineMeters(geoPos, targetGeo);
-  }, [geoPos, targetGeo]);
+  }, [geoPos?.lat, geoPos?.lon, targetGeo]);
 
   const gpsFeet = gpsMeters == null ? null : ft(gpsMeters);
 
+  const bearing = useMemo(() => initialBearingDeg(geoPos, targetGeo), [geoPos?.lat, geoPos?.lon, targetGeo]);
+  const compass = useCompassHeading(bearing != null);
+  const relativeBearing = bearing != null && compass.status === "active" && compass.reading ? normalizeDeg(bearing - compass.reading.heading) : null;
+  const headingPoor = compass.status === "active" && isHeadingAccuracyPoor(compass.reading?.accuracy ?? null);
+
+  const [geigerOn, setGeigerOn] = useState(false);
+  const [geigerMuted, setGeigerMuted] = useState(false);
+  const [geigerErr, setGeigerErr] = useState<string | null>(null);
+  const feedback = useProximityFeedback({ enabled: geigerOn, muted: geigerMuted, meters: isLive ? selectedState?.emaMeters ?? null : null, live: isLive, stability: st.label, trend: tr.label });
+
+  const [deleting, setDeleting] = useState(false);
+  const [deleteErr, setDeleteErr] = useState<string | null>(null);
+
+  const deleteAsset = async () => {
+    if (!window.confirm(`Delete ${selectedRow.asset.displayName}? This cannot be undone.`)) return;
+    setDeleting(true);
+    setDeleteErr(null);
+    try {
+      await onDelete(selectedRow.asset);
+    } catch (e: any) {
+      setDeleteErr(String(e?.message || e));
+      setDeleting(false);
+    }
+  };
+
+  const toggleGeiger = async () => {
+    if (geigerOn) {
+      setGeigerOn(false);
+      return;
+    }
+    const ok = await feedback.activate();
+    setGeigerErr(ok ? null : "Audio is not available in this browser.");
+    setGeigerOn(ok);
+  };
+
   return (
     <SurfaceCard theme={theme}>
       <div style={{ display: "flex", alignItems: "flex-start", justifyContent: "space-between", gap: 12, minWidth: 0, maxWidth: "100%" }}>
@@ -981,30 +1945,404 @@ function FindScreen({ selectedRow, selectedState, onBack, simTargetKey, setSimTa
       <div style={{ marginTop: 12, borderRadius: 18, padding: 16, border: `1px solid ${theme.border}`, background: theme.surface, maxWidth: "100%" }}>
         <div style={{ fontSize: 12, color: theme.muted, fontWeight: 950 }}>Estimated distance</div>
         <div style={{ fontSize: 40, fontWeight: 950, letterSpacing: -0.6, marginTop: 6, color: theme.text }}>{isLive ? (selectedFeet == null ? "Unknown" : `${Math.round(selectedFeet)} ft`) : "Unknown"}</div>
-        <div style={{ fontSize: 12, color: theme.muted, marginTop: 6 }}>{isLive && selectedState ? `RSSI: ${selectedState.lastRssi ?? "—"} dBm • Updated ${formatAge(nowMs() - selectedState.lastSeenMs)} ago` : "Asset is out of range or offline."}</div>
+        <div style={{ fontSize: 12, color: theme.muted, marginTop: 6 }}>{isLive && selectedState ? `RSSI: ${selectedState.lastRssi ?? "—"} dBm • Updated ${formatAge(now - selectedState.lastSeenMs)} ago` : "Asset is out of range or offline."}</div>
+        <div style={{ marginTop: 10, display: "flex", flexWrap: "wrap", gap: 8, alignItems: "center" }}>
+          <Button variant={geigerOn ? "default" : "secondary"} onClick={toggleGeiger} style={{ padding: "8px 10px", fontSize: 13 }}>
+            <Radar style={{ height: 16, width: 16, color: theme.accent }} />
+            {geigerOn ? "Geiger on" : "Geiger off"}
+          </Button>
+          {geigerOn ? (
+            <Button variant="secondary" onClick={() => setGeigerMuted((v) => !v)} style={{ padding: "8px 10px", fontSize: 13 }}>
+              {geigerMuted ? <VolumeX style={{ height: 16, width: 16, color: theme.accent }} /> : <Volume2 style={{ height: 16, width: 16, color: theme.accent }} />}
+              {geigerMuted ? "Muted" : "Mute"}
+            </Button>
+          ) : null}
+          {geigerOn && st.label === "Warming up" ? <div style={{ fontSize: 12, color: theme.muted }}>Quiet until the signal settles.</div> : null}
+        </div>
+        {geigerErr ? <div style={{ fontSize: 12, color: "rgba(220,38,38,0.95)", marginTop: 6 }}>{geigerErr}</div> : null}
       </div>
 
+      {position ? (
+        <div style={{ marginTop: 12, borderRadius: 18, padding: 16, border: `1px solid ${theme.border}`, background: theme.surface, maxWidth: "100%" }}>
+          <div style={{ fontSize: 12, color: theme.muted, fontWeight: 950 }}>Your position</div>
+          <div style={{ marginTop: 6, fontSize: 14, fontWeight: 950, color: theme.text }}>
+            {position.estimate ? `You are near ${position.estimate.nearest.anchor.label}` : "Unknown"}
+          </div>
+          <div style={{ fontSize: 12, color: theme.muted, marginTop: 6 }}>
+            {position.estimate
+              ? `${Math.round(ft(position.estimate.nearest.meters) || 0)} ft from ${position.estimate.nearest.anchor.label} • fit ±${Math.round(ft(position.estimate.residualMeters) || 0)} ft • ${position.estimate.used} anchors`
+              : `Waiting for 3 anchor beacons (${position.inRange} of ${position.total} in range).`}
+          </div>
+        </div>
+      ) : null}
+
       <div style={{ marginTop: 12, borderRadius: 18, padding: 16, border: `1px solid ${theme.border}`, background: theme.surface, maxWidth: "100%" }}>
-        <div style={{ fontSize: 12, color: theme.muted, fontWeight: 950 }}>GPS demo distance</div>
-        <div style={{ marginTop: 6, fontSize: 14, fontWeight: 950, color: theme.text }}>{gpsFeet == null ? "Unknown" : `${Math.round(gpsFeet)} ft`}</div>
-        <div style={{ fontSize: 12, color: theme.muted, marginTop: 6 }}>{geoErr ? geoErr : geoPos ? `Accuracy ±${Math.round(geoAcc || 0)}m` : "Waiting for location…"}</div>
+        <div style={{ fontSize: 12, color: theme.muted, fontWeight: 950 }}>Last known position</div>
+        <div style={{ marginTop: 6, fontSize: 14, fontWeight: 950, color: theme.text }}>{gpsFeet == null ? "Unknown" : `${Math.round(gpsFeet)} ft away`}</div>
+        <div style={{ fontSize: 12, color: theme.muted, marginTop: 6 }}>
+          {sighting
+            ? `Sighted ${formatAge(nowMs() - sighting.ts)} ago • ±${Math.round(sightingUncertainty(sighting))}m • ${sighting.rssi} dBm`
+            : "No GPS sighting of this asset yet."}
+        </div>
+        <div style={{ fontSize: 12, color: theme.muted, marginTop: 4 }}>{geoErr ? geoErr : geoPos ? `Your accuracy ±${Math.round(geoAcc || 0)}m` : "Waiting for location…"}</div>
+
+        {bearing != null ? (
+          <div style={{ marginTop: 12, display: "flex", alignItems: "center", gap: 14, minWidth: 0 }}>
+            {relativeBearing != null ? (
+              <div
+                aria-label={`Target is ${Math.round(relativeBearing)} degrees from your heading`}
+                style={{ height: 72, width: 72, borderRadius: 999, border: `1px solid ${theme.border}`, display: "flex", alignItems: "center", justifyContent: "center", flex: "0 0 auto" }}
+              >
+                <ArrowUp style={{ height: 44, width: 44, color: headingPoor ? theme.muted : theme.accent, transform: `rotate(${relativeBearing}deg)`, transition: "transform 160ms linear" }} />
+              </div>
+            ) : null}
+            <div style={{ display: "flex", flexDirection: "column", gap: 4, minWidth: 0, fontSize: 12, color: theme.muted }}>
+              <div style={{ fontWeight: 950, color: theme.text }}>
+                Bearing {Math.round(bearing)}° {compassPoint(bearing)}
+              </div>
+              {compass.status === "active" && compass.reading ? <div>Heading {Math.round(compass.reading.heading)}°</div> : null}
+              {compass.status === "needs_permission" ? (
+                <Button variant="secondary" onClick={compass.requestPermission} style={{ padding: "8px 10px", fontSize: 13 }}>
+                  Enable compass
+                </Button>
+              ) : null}
+              {compass.status === "denied" ? <div>Compass permission denied. Showing distance only.</div> : null}
+              {compass.status === "unsupported" ? <div>No compass on this device. Showing distance only.</div> : null}
+              {headingPoor ? <div style={{ color: "rgba(220,38,38,0.95)" }}>Compass accuracy is low. Wave your phone in a figure-8 to calibrate.</div> : null}
+            </div>
+          </div>
+        ) : null}
       </div>
 
-      <div style={{ marginTop: 12, display: "flex", flexWrap: "wrap", gap: 10, maxWidth: "100%" }}>
-        <Button variant={simTargetKey === selectedRow.key ? "default" : "secondary"} onClick={() => setSimTargetKey(selectedRow.key)}>
-          <Radar style={{ height: 16, width: 16 }} />
-          Simulate walking toward
-        </Button>
-        <Button variant={simTargetKey == null ? "default" : "secondary"} onClick={() => setSimTargetKey(null)}>
-          <RefreshCw style={{ height: 16, width: 16 }} />
-          Simulate idle
-        </Button>
-      </div>
+      {steerable ? (
+        <div style={{ marginTop: 12, display: "flex", flexWrap: "wrap", gap: 10, maxWidth: "100%" }}>
+          <Button variant={simTargetKey === selectedRow.key ? "default" : "secondary"} onClick={() => setSimTargetKey(selectedRow.key)}>
+            <Radar style={{ height: 16, width: 16 }} />
+            Simulate walking toward
+          </Button>
+          <Button variant={simTargetKey == null ? "default" : "secondary"} onClick={() => setSimTargetKey(null)}>
+            <RefreshCw style={{ height: 16, width: 16 }} />
+            Simulate idle
+          </Button>
+        </div>
+      ) : null}
+
+      {onDelete ? (
+        <div style={{ marginTop: 12, display: "flex", flexDirection: "column", gap: 6, maxWidth: "100%" }}>
+          <div>
+            <Button variant="secondary" onClick={deleteAsset} disabled={deleting}>
+              <Trash2 style={{ height: 16, width: 16, color: "rgba(220,38,38,0.95)" }} />
+              Delete asset
+            </Button>
+          </div>
+          {deleteErr ? <div style={{ fontSize: 12, color: "rgba(220,38,38,0.95)" }}>{deleteErr}</div> : null}
+        </div>
+      ) : null}
     </SurfaceCard>
   );
 }
 
-function CommissionScreen({ jobsites, commMajor, setCommMajor, commMinor, setCommMinor, commType, setCommType, commTag, setCommTag, onSave, theme }: any) {
+function markerColor(row: any) {
+  if (!row || !row.fresh) return "rgba(127,127,127,0.75)";
+  const st = stabilityLabel(row.madMeters, row.variance);
+  if (st.label === "Stable") return "#16a34a";
+  if (st.label === "Unstable") return "#dc2626";
+  return "#f59e0b";
+}
+
+function FloorPlanScreen({ jobsite, plan, planError, onSavePlan, editDenied, rows, position, onFind, theme }: any) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<FloorPlan | null>(null);
+  const [drag, setDrag] = useState<{ key: string; kind: PlacementKind; label: string; clientX: number; clientY: number } | null>(null);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [editResult, setEditResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const planRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    setEditing(false);
+    setDraft(null);
+    setSelectedKey(null);
+    setEditResult(null);
+  }, [jobsite?.major]);
+
+  const anchors: Anchor[] = jobsite?.anchors ?? [];
+  const rowByKey = useMemo(() => new Map<string, any>(rows.map((r: any) => [r.key, r])), [rows]);
+  const anchorByKey = useMemo(() => new Map<string, Anchor>(anchors.map((a) => [beaconKey(a.beacon), a])), [anchors]);
+
+  if (!jobsite) return <div style={{ fontSize: 13, color: theme.muted }}>Select a project to view its floor plan.</div>;
+  if (plan === undefined && !planError) return <div style={{ fontSize: 13, color: theme.muted }}>Loading floor plan…</div>;
+
+  const shown: FloorPlan | null = editing ? draft : plan ?? null;
+  const labelFor = (key: string, kind: PlacementKind) => (kind === "anchor" ? anchorByKey.get(key)?.label : rowByKey.get(key)?.asset.assetTag) ?? "?";
+
+  const startEditing = () => {
+    setDraft(plan ?? null);
+    setEditResult(null);
+    setSelectedKey(null);
+    setEditing(true);
+  };
+
+  const onUpload = async (file: File | null) => {
+    if (!file) return;
+    try {
+      const { dataUrl, aspect } = await loadPlanImage(file);
+      setDraft((prev) => (prev ? { ...prev, imageDataUrl: dataUrl, aspect } : { jobsiteMajor: jobsite.major, imageDataUrl: dataUrl, aspect, widthMeters: 40, placements: [] }));
+      setEditResult(null);
+    } catch (e: any) {
+      setEditResult({ ok: false, message: String(e?.message || e) });
+    }
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      await onSavePlan(draft);
+      setEditing(false);
+      setEditResult({ ok: true, message: "Floor plan saved." });
+    } catch (e: any) {
+      setEditResult({ ok: false, message: String(e?.message || e) });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const dragHandlers = (key: string, kind: PlacementKind) => ({
+    onPointerDown: (e: React.PointerEvent) => {
+      if (!editing) return;
+      e.preventDefault();
+      e.stopPropagation();
+      (e.currentTarget as HTMLElement).setPointerCapture?.(e.pointerId);
+      setDrag({ key, kind, label: labelFor(key, kind), clientX: e.clientX, clientY: e.clientY });
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      if (!drag || drag.key !== key) return;
+      setDrag({ ...drag, clientX: e.clientX, clientY: e.clientY });
+    },
+    onPointerUp: (e: React.PointerEvent) => {
+      if (!drag || drag.key !== key) return;
+      const rect = planRef.current?.getBoundingClientRect();
+      const inside = rect && e.clientX >= rect.left && e.clientX <= rect.right && e.clientY >= rect.top && e.clientY <= rect.bottom;
+      setDraft((prev) => {
+        if (!prev) return prev;
+        if (!rect || !inside) return removeFromPlan(prev, key);
+        return placeOnPlan(prev, { key, kind, x: clamp((e.clientX - rect.left) / rect.width, 0, 1), y: clamp((e.clientY - rect.top) / rect.height, 0, 1) });
+      });
+      setDrag(null);
+    },
+    onPointerCancel: () => setDrag(null),
+  });
+
+  const placedKeys = new Set((shown?.placements ?? []).map((p) => p.key));
+  const unplaced = [
+    ...anchors.map((a) => ({ key: beaconKey(a.beacon), kind: "anchor" as const })),
+    ...rows.map((r: any) => ({ key: r.key as string, kind: "asset" as const })),
+  ].filter((x) => !placedKeys.has(x.key));
+
+  const you = shown && position?.estimate ? metersToPlan(shown, position.estimate.x, position.estimate.y) : null;
+  const selectedRow = selectedKey ? rowByKey.get(selectedKey) : null;
+  const selectedAnchor = selectedKey ? anchorByKey.get(selectedKey) : null;
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 12, minWidth: 0, maxWidth: "100%" }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10, minWidth: 0 }}>
+        <div style={{ fontWeight: 950, minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{jobsite.name}</div>
+        {editing ? (
+          <div style={{ display: "flex", gap: 8, flex: "0 0 auto" }}>
+            <Button variant="secondary" onClick={() => setEditing(false)} style={{ padding: "10px 12px" }}>
+              Cancel
+            </Button>
+            <Button onClick={save} disabled={!draft || saving} style={{ padding: "10px 12px" }}>
+              {saving ? "Saving…" : "Save"}
+            </Button>
+          </div>
+        ) : (
+          <Button variant="secondary" onClick={startEditing} disabled={!!editDenied} style={{ padding: "10px 12px", flex: "0 0 auto" }}>
+            Edit plan
+          </Button>
+        )}
+      </div>
+
+      {editDenied && !editing ? <div style={{ fontSize: 12, color: theme.muted }}>{editDenied}</div> : null}
+      {planError ? <div style={{ fontSize: 13, color: "rgba(220,38,38,0.95)" }}>{planError}</div> : null}
+
+      {editing ? (
+        <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+          <div style={{ fontSize: 12, fontWeight: 950, color: theme.muted }}>Plan image</div>
+          <Input type="file" accept="image/*" onChange={(e: any) => onUpload(e.target.files?.[0] || null)} />
+          {draft ? (
+            <>
+              <div style={{ fontSize: 12, fontWeight: 950, color: theme.muted }}>Plan width (meters)</div>
+              <Input
+                type="number"
+                min={1}
+                value={String(draft.widthMeters)}
+                onChange={(e: any) => {
+                  const v = Number(e.target.value);
+                  if (v > 0) setDraft({ ...draft, widthMeters: v });
+                }}
+              />
+            </>
+          ) : null}
+        </div>
+      ) : null}
+
+      {shown ? (
+        <div ref={planRef} style={{ position: "relative", width: "100%", borderRadius: 14, overflow: "hidden", border: `1px solid ${theme.border}`, background: "#fff" }}>
+          <img src={shown.imageDataUrl} alt={`${jobsite.name} floor plan`} style={{ width: "100%", height: "auto", display: "block", userSelect: "none", pointerEvents: "none" }} />
+          {shown.placements.map((p) => {
+            const isAnchor = p.kind === "anchor";
+            const row = rowByKey.get(p.key);
+            if (!isAnchor && !row) return null;
+            return (
+              <div
+                key={p.key}
+                {...dragHandlers(p.key, p.kind)}
+                onClick={() => (editing ? undefined : setSelectedKey(p.key))}
+                title={labelFor(p.key, p.kind)}
+                style={{
+                  position: "absolute",
+                  left: `${p.x * 100}%`,
+                  top: `${p.y * 100}%`,
+                  transform: "translate(-50%, -50%)",
+                  display: "flex",
+                  flexDirection: "column",
+                  alignItems: "center",
+                  gap: 2,
+                  cursor: editing ? "grab" : "pointer",
+                  touchAction: editing ? "none" : "auto",
+                  // The dragged marker stays mounted: it holds the pointer capture that delivers the move and up events.
+                  opacity: drag?.key === p.key ? 0.35 : 1,
+                }}
+              >
+                <div
+                  style={{
+                    height: isAnchor ? 14 : 18,
+                    width: isAnchor ? 14 : 18,
+                    borderRadius: isAnchor ? 3 : 999,
+                    background: isAnchor ? theme.accent : markerColor(row),
+                    border: selectedKey === p.key ? "3px solid #000" : "2px solid #fff",
+                    boxShadow: "0 2px 6px rgba(0,0,0,0.35)",
+                  }}
+                />
+                <div style={{ fontSize: 10, fontWeight: 950, color: "#000", background: "rgba(255,255,255,0.85)", borderRadius: 6, padding: "0 4px", whiteSpace: "nowrap" }}>{labelFor(p.key, p.kind)}</div>
+              </div>
+            );
+          })}
+          {you && !editing ? (
+            <div style={{ position: "absolute", left: `${clamp(you.x, 0, 1) * 100}%`, top: `${clamp(you.y, 0, 1) * 100}%`, transform: "translate(-50%, -50%)", pointerEvents: "none" }}>
+              <div style={{ height: 16, width: 16, borderRadius: 999, background: "#2563eb", border: "3px solid #fff", boxShadow: "0 0 0 6px rgba(37,99,235,0.25)" }} />
+            </div>
+          ) : null}
+        </div>
+      ) : (
+        <div style={{ fontSize: 13, color: theme.muted }}>{editing ? "Upload a plan image to start placing beacons." : "No floor plan for this project yet."}</div>
+      )}
+
+      {editing && draft ? (
+        <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+          <div style={{ fontSize: 12, color: theme.muted }}>Drag beacons and anchors onto the plan. Drag a marker off the plan to remove it.</div>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: 8 }}>
+            {unplaced.map((x) => (
+              <div key={x.key} {...dragHandlers(x.key, x.kind)} style={{ touchAction: "none", cursor: "grab" }}>
+                <Badge variant={x.kind === "anchor" ? "default" : "secondary"}>
+                  {x.kind === "anchor" ? "Anchor " : ""}
+                  {labelFor(x.key, x.kind)}
+                </Badge>
+              </div>
+            ))}
+            {!unplaced.length ? <div style={{ fontSize: 12, color: theme.muted }}>Everything is placed.</div> : null}
+          </div>
+        </div>
+      ) : null}
+
+      {!editing && shown ? (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 8, fontSize: 12, color: theme.muted }}>
+          <span style={{ color: "#16a34a", fontWeight: 950 }}>● Stable</span>
+          <span style={{ color: "#f59e0b", fontWeight: 950 }}>● Moderate</span>
+          <span style={{ color: "#dc2626", fontWeight: 950 }}>● Unstable</span>
+          <span style={{ color: "rgba(127,127,127,0.9)", fontWeight: 950 }}>● Out of range</span>
+          {you ? <span style={{ color: "#2563eb", fontWeight: 950 }}>● You</span> : null}
+        </div>
+      ) : null}
+
+      {!editing && selectedRow ? (
+        <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10, borderRadius: 14, padding: "10px 12px", border: `1px solid ${theme.border}`, minWidth: 0 }}>
+          <div style={{ minWidth: 0 }}>
+            <div style={{ fontWeight: 950, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{selectedRow.asset.displayName}</div>
+            <div style={{ fontSize: 12, color: theme.muted }}>
+              {selectedRow.fresh && selectedRow.meters != null ? `${Math.round(ft(selectedRow.meters) || 0)} ft` : "Out of range"}
+              {selectedRow.asset.locationHint ? ` • ${selectedRow.asset.locationHint}` : ""}
+            </div>
+          </div>
+          <Button onClick={() => onFind(selectedRow)} style={{ flex: "0 0 auto" }}>
+            <ArrowRight style={{ height: 16, width: 16 }} />
+            Find
+          </Button>
+        </div>
+      ) : null}
+      {!editing && selectedAnchor ? <div style={{ fontSize: 12, color: theme.muted }}>Anchor {selectedAnchor.label} • minor {selectedAnchor.beacon.minor}</div> : null}
+
+      {editResult ? <div style={{ fontSize: 13, color: editResult.ok ? theme.text : "rgba(220,38,38,0.95)" }}>{editResult.message}</div> : null}
+
+      {drag ? (
+        <div style={{ position: "fixed", left: drag.clientX, top: drag.clientY, transform: "translate(-50%, -50%)", pointerEvents: "none", zIndex: 95 }}>
+          <Badge>{drag.label}</Badge>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+const BEACON_QR_FORMATS: BarcodeFormat[] = ["qr_code"];
+const TAG_BARCODE_FORMATS: BarcodeFormat[] = ["code_128", "code_39", "ean_13", "ean_8", "upc_a", "upc_e", "data_matrix", "qr_code"];
+
+function FieldError({ error }: { error?: string | null }) {
+  return error ? <div style={{ fontSize: 12, color: "rgba(220,38,38,0.95)" }}>{error}</div> : null;
+}
+
+function CommissionScreen({ jobsites, commMajor, setCommMajor, commMinor, setCommMinor, commType, setCommType, commTag, setCommTag, errors, saveError, saving, onSave, offline, denied, theme }: any) {
+  // Errors show once a field has been left or Save was pressed, not while the form is still being filled in.
+  const [touched, setTouched] = useState<Partial<Record<CommissionField, boolean>>>({});
+  const [submitted, setSubmitted] = useState(false);
+  const errorFor = (f: CommissionField): string | null => (submitted || touched[f] ? errors[f] ?? null : null);
+  const touch = (f: CommissionField) => () => setTouched((t) => ({ ...t, [f]: true }));
+  const invalid = (f: CommissionField) => (errorFor(f) ? { borderColor: "rgba(220,38,38,0.95)" } : undefined);
+
+  const save = () => {
+    setSubmitted(true);
+    if (Object.keys(errors).length) return;
+    onSave();
+  };
+
+  // Two scans and a confirm: the beacon's QR sticker fills jobsite and minor, the asset's barcode fills the tag.
+  const [scanning, setScanning] = useState<"beacon" | "tag" | null>(null);
+  const [scanMessage, setScanMessage] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const scanned = (text: string) => {
+    if (scanning === "tag") {
+      setCommTag(normalizeTag(text));
+      setTouched((t) => ({ ...t, assetTag: true }));
+      setScanMessage({ ok: true, message: `Asset tag ${normalizeTag(text)} scanned.` });
+      return;
+    }
+    const { beacon, error } = parseBeaconQr(text);
+    if (!beacon) {
+      setScanMessage({ ok: false, message: error });
+      return;
+    }
+    setCommMajor(String(beacon.major));
+    setCommMinor(String(beacon.minor));
+    setTouched((t) => ({ ...t, jobsiteMajor: true, minor: true }));
+    setScanMessage({ ok: true, message: `Beacon ${beacon.major}/${beacon.minor} scanned. Now scan the asset tag.` });
+  };
+
+  const startScan = (kind: "beacon" | "tag") => {
+    setScanMessage(null);
+    setScanning(kind);
+  };
+
   return (
     <SurfaceCard theme={theme}>
       <div style={{ display: "flex", alignItems: "center", gap: 10, minWidth: 0, maxWidth: "100%" }}>
@@ -1015,6 +2353,27 @@ function CommissionScreen({ jobsites, commMajor, setCommMajor, commMinor, setCom
       <Separator />
 
       <div style={{ display: "flex", flexDirection: "column", gap: 12, minWidth: 0, maxWidth: "100%" }}>
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
+          <Button variant="secondary" onClick={() => startScan("beacon")}>
+            <QrCode style={{ height: 16, width: 16, color: theme.accent }} />
+            Scan beacon
+          </Button>
+          <Button variant="secondary" onClick={() => startScan("tag")}>
+            <ScanLine style={{ height: 16, width: 16, color: theme.accent }} />
+            Scan tag
+          </Button>
+        </div>
+        <ScannerDialog
+          open={!!scanning}
+          title={scanning === "tag" ? "SCAN ASSET TAG" : "SCAN BEACON STICKER"}
+          hint={scanning === "tag" ? "Point at the asset's barcode label." : "Point at the QR sticker on the beacon."}
+          formats={scanning === "tag" ? TAG_BARCODE_FORMATS : BEACON_QR_FORMATS}
+          mode="single"
+          onResult={scanned}
+          onClose={() => setScanning(null)}
+        />
+        {scanMessage ? <div style={{ fontSize: 13, color: scanMessage.ok ? theme.text : "rgba(220,38,38,0.95)" }}>{scanMessage.message}</div> : null}
+
         <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
           <div style={{ fontSize: 12, fontWeight: 950, color: theme.muted }}>Project</div>
           <Select value={String(commMajor)} onValueChange={setCommMajor} theme={theme}>
@@ -1024,35 +2383,56 @@ function CommissionScreen({ jobsites, commMajor, setCommMajor, commMinor, setCom
               </SelectItem>
             ))}
           </Select>
+          <FieldError error={errorFor("jobsiteMajor")} />
         </div>
 
         <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
           <div style={{ fontSize: 12, fontWeight: 950, color: theme.muted }}>Beacon Minor</div>
-          <Input value={commMinor} onChange={(e: any) => setCommMinor(e.target.value)} placeholder="e.g., 777" />
+          <Input value={commMinor} onChange={(e: any) => setCommMinor(e.target.value)} onBlur={touch("minor")} inputMode="numeric" placeholder="0–65535, e.g. 777" aria-invalid={!!errorFor("minor")} style={invalid("minor")} />
+          <FieldError error={errorFor("minor")} />
         </div>
 
         <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
           <div style={{ fontSize: 12, fontWeight: 950, color: theme.muted }}>Asset Type</div>
-          <Input value={commType} onChange={(e: any) => setCommType(e.target.value)} placeholder="Access Point" />
+          <Input value={commType} onChange={(e: any) => setCommType(e.target.value)} onBlur={touch("assetType")} placeholder="Access Point" aria-invalid={!!errorFor("assetType")} style={invalid("assetType")} />
+          <FieldError error={errorFor("assetType")} />
         </div>
 
         <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
           <div style={{ fontSize: 12, fontWeight: 950, color: theme.muted }}>Asset Tag</div>
-          <Input value={commTag} onChange={(e: any) => setCommTag(e.target.value)} placeholder="C1234" />
+          <Input value={commTag} onChange={(e: any) => setCommTag(e.target.value)} onBlur={touch("assetTag")} autoCapitalize="characters" placeholder="C1234" aria-invalid={!!errorFor("assetTag")} style={invalid("assetTag")} />
+          <FieldError error={errorFor("assetTag")} />
         </div>
 
         <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
-          <Button onClick={onSave} disabled={!String(commMinor).trim()}>
-            Save
+          <Button onClick={save} disabled={saving || offline || !!denied}>
+            {saving ? "Saving…" : "Save"}
           </Button>
           <Badge variant="secondary">UUID fixed</Badge>
         </div>
+        {saveError ? <div style={{ fontSize: 13, color: "rgba(220,38,38,0.95)" }}>{saveError}</div> : null}
+        {denied ? <div style={{ fontSize: 12, color: theme.muted }}>{denied}</div> : null}
+        {offline ? <div style={{ fontSize: 12, color: theme.muted }}>Offline: commissioning needs a connection.</div> : null}
       </div>
     </SurfaceCard>
   );
 }
 
-function BeaconApp({ headerBadge, jobsites, jobsiteMajor, setJobsiteMajor, q, setQ, tab, setTab, simRunning, setSimRunning, onHome, onOpenSettings, rows, onFind, selectedRow, selectedState, onBackFromFind, simTargetKey, setSimTargetKey, commissionProps, jobsiteName, theme, targetGeo }: any) {
+function DataErrorNotice({ error, theme }: { error: string | null; theme: Theme }) {
+  if (!error) return null;
+  return (
+    <SurfaceCard theme={theme}>
+      <div style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 13 }}>
+        <div style={{ fontWeight: 950, color: "rgba(220,38,38,0.95)" }}>Backend data problem</div>
+        <div style={{ color: theme.muted, overflowWrap: "anywhere" }}>{error}</div>
+      </div>
+    </SurfaceCard>
+  );
+}
+
+function BeaconApp({ dataError, headerBadge, jobsites, jobsiteMajor, setJobsiteMajor, q, setQ, tab, setTab, scanRunning, setScanRunning, beaconSource, onHome, onOpenSettings, rows, onFind, selectedRow, selectedState, position, onBackFromFind, onDeleteAsset, simTargetKey, setSimTargetKey, commissionProps, planProps, jobsiteName, theme, geo, sighting }: any) {
+  const [searchScanOpen, setSearchScanOpen] = useState(false);
+
   return (
     <PhoneFrame
       theme={theme}
@@ -1066,9 +2446,9 @@ function BeaconApp({ headerBadge, jobsites, jobsiteMajor, setJobsiteMajor, q, se
           }
           center={headerBadge}
           right={
-            <Button variant={simRunning ? "default" : "secondary"} onClick={() => setSimRunning((v: boolean) => !v)} style={{ padding: "10px 12px" }}>
+            <Button variant={scanRunning ? "default" : "secondary"} onClick={() => setScanRunning((v: boolean) => !v)} style={{ padding: "10px 12px" }}>
               <RefreshCw style={{ height: 16, width: 16, color: theme.accent }} />
-              {simRunning ? "Sim On" : "Sim Off"}
+              {beaconSource.shortLabel} {scanRunning ? "On" : "Off"}
             </Button>
           }
         />
@@ -1076,15 +2456,23 @@ function BeaconApp({ headerBadge, jobsites, jobsiteMajor, setJobsiteMajor, q, se
     >
       <Header title="Beacon Finder" subtitle="Nearby assets and Find view." theme={theme} leftGlyph={<Radar style={{ height: 18, width: 18, color: theme.accent }} />} />
 
+      <DataErrorNotice error={dataError} theme={theme} />
+
       <SurfaceCard theme={theme}>
         <div style={{ display: "flex", flexDirection: "column", gap: 12, minWidth: 0, maxWidth: "100%" }}>
           <TabRow tab={tab} setTab={setTab} disableFind={!selectedRow} />
 
           <div style={{ display: "flex", flexDirection: "column", gap: 10, minWidth: 0, maxWidth: "100%" }}>
-            <div style={{ position: "relative", minWidth: 0, maxWidth: "100%" }}>
-              <Search style={{ height: 16, width: 16, position: "absolute", left: 12, top: "50%", transform: "translateY(-50%)", color: theme.muted }} />
-              <Input value={q} onChange={(e: any) => setQ(e.target.value)} placeholder="Search: tag, type, name, minor" style={{ paddingLeft: 38 }} />
+            <div style={{ display: "flex", gap: 10, alignItems: "center", minWidth: 0, maxWidth: "100%" }}>
+              <div style={{ position: "relative", flex: "1 1 auto", minWidth: 0 }}>
+                <Search style={{ height: 16, width: 16, position: "absolute", left: 12, top: "50%", transform: "translateY(-50%)", color: theme.muted }} />
+                <Input value={q} onChange={(e: any) => setQ(e.target.value)} placeholder="Search: tag, type, name, minor" style={{ paddingLeft: 38 }} />
+              </div>
+              <Button variant="secondary" onClick={() => setSearchScanOpen(true)} style={{ padding: "10px 12px", flex: "0 0 auto" }}>
+                <ScanLine style={{ height: 16, width: 16, color: theme.accent }} />
+              </Button>
             </div>
+            <ScannerDialog open={searchScanOpen} title="SCAN ASSET TAG" hint="Point at an asset's barcode label to search for it." formats={TAG_BARCODE_FORMATS} mode="single" onResult={setQ} onClose={() => setSearchScanOpen(false)} />
 
             <Select value={String(jobsiteMajor)} onValueChange={setJobsiteMajor} theme={theme}>
               <SelectItem value="all">All projects</SelectItem>
@@ -1100,8 +2488,10 @@ function BeaconApp({ headerBadge, jobsites, jobsiteMajor, setJobsiteMajor, q, se
 
           {tab === "nearby" ? <NearbyList rows={rows} jobsiteName={jobsiteName} onFind={onFind} theme={theme} /> : null}
 
+          {tab === "plan" ? <FloorPlanScreen {...planProps} rows={rows} onFind={onFind} theme={theme} /> : null}
+
           {tab === "find" && selectedRow ? (
-            <FindScreen selectedRow={selectedRow} selectedState={selectedState} onBack={onBackFromFind} simTargetKey={simTargetKey} setSimTargetKey={setSimTargetKey} theme={theme} targetGeo={targetGeo} />
+            <FindScreen selectedRow={selectedRow} selectedState={selectedState} now={sourceNowMs(beaconSource)} position={position} onBack={onBackFromFind} onDelete={onDeleteAsset} steerable={beaconSource.capabilities().steerable} simTargetKey={simTargetKey} setSimTargetKey={setSimTargetKey} theme={theme} geo={geo} sighting={sighting} />
           ) : null}
 
           {tab === "commission" ? <CommissionScreen jobsites={jobsites} {...commissionProps} theme={theme} /> : null}
@@ -1118,13 +2508,138 @@ function BeaconApp({ headerBadge, jobsites, jobsiteMajor, setJobsiteMajor, q, se
   );
 }
 
-async function resolveBarcodeDetectorCtor(): Promise<DetectorCtor | null> {
-  const win: any = typeof window === "undefined" ? null : (window as any);
-  if (win?.BarcodeDetector) return win.BarcodeDetector as DetectorCtor;
-  return null;
+function PendingUploads({ entries, error, onRetry, onDiscard, theme }: { entries: MovementEntry[]; error: string | null; onRetry: (id: string) => void; onDiscard: (id: string) => void; theme: Theme }) {
+  if (!entries.length && !error) return null;
+
+  return (
+    <SurfaceCard theme={theme}>
+      <div style={{ display: "flex", flexDirection: "column", gap: 10, minWidth: 0, maxWidth: "100%" }}>
+        <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
+          <RefreshCw style={{ height: 18, width: 18, color: theme.accent }} />
+          <div style={{ fontWeight: 950 }}>Pending uploads ({entries.length})</div>
+        </div>
+
+        {error ? <div style={{ fontSize: 12, color: "rgba(220,38,38,0.95)" }}>{error}</div> : null}
+
+        {entries.map((e) => (
+          <div key={e.id} style={{ display: "flex", flexDirection: "column", gap: 6, borderRadius: 14, padding: "10px 12px", border: `1px solid ${theme.border}`, minWidth: 0 }}>
+            <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10 }}>
+              <div style={{ fontWeight: 950, minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{e.payload.ticketNumber}</div>
+              <Badge variant={e.state === "failed" ? "destructive" : "secondary"}>{e.state === "failed" ? "Needs attention" : "Queued"}</Badge>
+            </div>
+            <div style={{ fontSize: 12, color: theme.muted }}>
+              {e.payload.barcodes.length} asset(s) · {e.payload.status} · {e.payload.location}
+              {e.payload.technician ? ` · by ${e.payload.technician.name}` : ""}
+            </div>
+            <div style={{ fontSize: 12, color: theme.muted }}>
+              Queued {formatSyncedAt(e.createdAt)} · {e.attempts} attempt(s)
+              {e.state === "pending" && e.attempts > 0 ? ` · next try ${formatSyncedAt(e.nextAttemptAt)}` : ""}
+            </div>
+            {e.lastError ? <div style={{ fontSize: 12, color: "rgba(220,38,38,0.95)" }}>{e.lastError}</div> : null}
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+              <Button variant="secondary" onClick={() => onRetry(e.id)} style={{ padding: "8px 10px" }}>
+                Retry now
+              </Button>
+              <Button variant="destructive" onClick={() => onDiscard(e.id)} style={{ padding: "8px 10px" }}>
+                Discard
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </SurfaceCard>
+  );
 }
 
-function AssetDeployment({ headerBadge, onHome, onOpenSettings, mode, theme }: any) {
+type ScannerDialogProps = {
+  open: boolean;
+  title?: string;
+  hint?: string;
+  formats?: BarcodeFormat[];
+  mode?: ScanMode;
+  onResult: (text: string) => void;
+  onClose: () => void;
+};
+
+/** Camera overlay on top of useBarcodeScanner. In single mode it closes itself after the first code. */
+function ScannerDialog({ open, title = "SCAN BARCODE", hint = "Point at a barcode.", formats, mode = "continuous", onResult, onClose }: ScannerDialogProps) {
+  const { videoRef, error } = useBarcodeScanner({
+    active: open,
+    formats,
+    mode,
+    onResult: (text) => {
+      onResult(text);
+      if (mode === "single") onClose();
+    },
+  });
+  if (!open) return null;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 90,
+        background: "rgba(0,0,0,0.78)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        padding: 12,
+        fontFamily: "ui-rounded, ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial",
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          width: "100%",
+          maxWidth: 390,
+          borderRadius: 22,
+          overflow: "hidden",
+          border: "1px solid rgba(255,255,255,0.18)",
+          background: "#0b0b0b",
+          color: "#fff",
+          boxShadow: "0 28px 80px rgba(0,0,0,0.55)",
+          minWidth: 0,
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", padding: 12, borderBottom: "1px solid rgba(255,255,255,0.14)", gap: 10 }}>
+          <div style={{ fontWeight: 900, fontSize: 13, letterSpacing: 0.2 }}>{title}</div>
+          <button
+            onClick={onClose}
+            style={{
+              height: 34,
+              width: 34,
+              borderRadius: 12,
+              display: "inline-flex",
+              alignItems: "center",
+              justifyContent: "center",
+              border: "1px solid rgba(255,255,255,0.18)",
+              background: "rgba(255,255,255,0.08)",
+              color: "#fff",
+              cursor: "pointer",
+            }}
+            aria-label="Close camera"
+          >
+            <X style={{ height: 18, width: 18 }} />
+          </button>
+        </div>
+
+        <div style={{ padding: 12 }}>
+          <div style={{ borderRadius: 16, overflow: "hidden", border: "1px solid rgba(255,255,255,0.14)", background: "#000" }}>
+            <video ref={videoRef} playsInline muted style={{ width: "100%", height: "auto", display: "block" }} />
+          </div>
+          {error ? <div style={{ marginTop: 10, fontSize: 12, color: "#ffb4b4" }}>{error}</div> : null}
+          <div style={{ marginTop: 10, fontSize: 12, opacity: 0.85 }}>{hint}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function AssetDeployment({ headerBadge, onHome, onOpenSettings, mode, client, outbox, technician, theme }: any) {
   const [ticket, setTicket] = useState("SR-20498");
   const [scanInput, setScanInput] = useState("");
   const [scanned, setScanned] = useState<string[]>([]);
@@ -1133,22 +2648,10 @@ function AssetDeployment({ headerBadge, onHome, onOpenSettings, mode, theme }: a
   const [lookupResult, setLookupResult] = useState<any>(null);
   const [submitResult, setSubmitResult] = useState<any>(null);
 
-  const [cameraOpen, setCameraOpen] = useState(false);
-  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [scanTarget, setScanTarget] = useState<"assets" | "ticket" | null>(null);
   const [toast, setToast] = useState<Toast | null>(null);
   const toastTimerRef = useRef<number | null>(null);
 
-  const videoRef = useRef<HTMLVideoElement | null>(null);
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const rafRef = useRef<number | null>(null);
-  const scanIntervalRef = useRef<number | null>(null);
-  const scanInFlightRef = useRef(false);
-  const detectorRef = useRef<any>(null);
-  const zxingControlsRef = useRef<any>(null);
-  const zxingReaderRef = useRef<any>(null);
-  const lastScanRef = useRef<{ text: string; ts: number }>({ text: "", ts: 0 });
-
   const showToast = useCallback((msg: string) => {
     setToast({ msg, ts: Date.now() });
     if (toastTimerRef.current) window.clearTimeout(toastTimerRef.current);
@@ -1196,295 +2699,51 @@ function AssetDeployment({ headerBadge, onHome, onOpenSettings, mode, theme }: a
       return;
     }
 
-    if (mode === "backend") {
-      try {
-        const r = await fetch(`${API_BASE}/api/tickets/${encodeURIComponent(ticket.trim())}`);
-        const j = await r.json();
-        if (!r.ok) throw new Error(j?.error || "Ticket lookup failed");
-        setLookupResult({ ok: true, message: `Ticket found. Assets attached: ${j.assets?.length ?? 0}.`, assets: j.assets || [] });
-      } catch (e: any) {
-        setLookupResult({ ok: false, message: String(e?.message || e) });
-      }
-      return;
-    }
-
-    const assets = (MOCK.ticketDB as any)[ticket.trim()] ?? null;
-    if (assets == null) {
-      setLookupResult({ ok: false, message: "Ticket not found. Try INC-10001 or SR-20498." });
-      return;
-    }
-    setLookupResult({ ok: true, message: `Ticket found. Assets attached: ${assets.length}.`, assets });
-  }, [ticket, mode]);
-
-  const submit = useCallback(async () => {
-    setSubmitResult(null);
-
-    const t = ticket.trim();
-    if (!t) {
-      setSubmitResult({ ok: false, message: "Ticket number is required." });
-      return;
-    }
-    if (scanned.length === 0) {
-      setSubmitResult({ ok: false, message: "Scan at least one asset barcode." });
-      return;
-    }
-
-    if (mode === "backend") {
-      try {
-        const r = await fetch(`${API_BASE}/api/asset-movements`, {
-          method: "POST",
-          headers: { "content-type": "application/json" },
-          body: JSON.stringify({ ticketNumber: t, barcodes: scanned, status, location }),
-        });
-        const j = await r.json();
-        if (!r.ok) throw new Error(j?.error || "Submission failed");
-        setSubmitResult({ ok: true, message: `Submitted. Attached ${j.attached ?? scanned.length} assets and updated status.` });
-      } catch (e: any) {
-        setSubmitResult({ ok: false, message: String(e?.message || e) });
-      }
-      return;
-    }
-
-    const existing = (MOCK.ticketDB as any)[t];
-    if (existing == null) {
-      setSubmitResult({ ok: false, message: "Ticket not found." });
-      return;
-    }
-
-    const merged = Array.from(new Set([...(existing || []), ...scanned]));
-    (MOCK.ticketDB as any)[t] = merged;
-
-    setSubmitResult({ ok: true, message: `Submitted. Ticket ${t} now has ${merged.length} asset(s). Status → ${status}. Location → ${location}.` });
-    setLookupResult({ ok: true, message: `Ticket found. Assets attached: ${merged.length}.`, assets: merged });
-  }, [ticket, scanned, status, location, mode]);
-
-  const stopCamera = useCallback(() => {
-    if (rafRef.current) {
-      cancelAnimationFrame(rafRef.current);
-      rafRef.current = null;
-    }
-
-    if (scanIntervalRef.current) {
-      window.clearInterval(scanIntervalRef.current);
-      scanIntervalRef.current = null;
-    }
-
-    scanInFlightRef.current = false;
-
-    if (zxingControlsRef.current) {
-      try {
-        zxingControlsRef.current.stop?.();
-      } catch {
-        return;
-      }
-      zxingControlsRef.current = null;
-    }
-
-    if (zxingReaderRef.current) {
-      try {
-        zxingReaderRef.current.reset?.();
-      } catch {
-        return;
-      }
-      zxingReaderRef.current = null;
-    }
-
-    if (streamRef.current) {
-      for (const track of streamRef.current.getTracks()) {
-        try {
-          track.stop();
-        } catch {
-          return;
-        }
-      }
-      streamRef.current = null;
-    }
-
-    if (videoRef.current) {
-      try {
-        videoRef.current.pause();
-      } catch {
-        return;
-      }
-      videoRef.current.srcObject = null;
-    }
-
-    detectorRef.current = null;
-  }, []);
-
-  const closeCamera = useCallback(() => {
-    setCameraOpen(false);
-  }, []);
-
-  const commitScan = useCallback(
-    (raw: string) => {
-      const v = String(raw || "").trim();
-      if (!v) return;
-      const now = Date.now();
-      const last = lastScanRef.current;
-      if (v === last.text && now - last.ts < 900) return;
-      lastScanRef.current = { text: v, ts: now };
-      addCode(v);
-    },
-    [addCode]
-  );
-
-  const scanLoop = useCallback(async () => {
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
-    const detector = detectorRef.current;
-
-    if (!video || !canvas || !detector) return;
-    if (scanInFlightRef.current) return;
-
-    if (video.readyState < 2) return;
-
-    const w = video.videoWidth || 0;
-    const h = video.videoHeight || 0;
-    if (w <= 0 || h <= 0) return;
-
-    scanInFlightRef.current = true;
-
-    try {
-      if (canvas.width !== w) canvas.width = w;
-      if (canvas.height !== h) canvas.height = h;
-      const ctx = canvas.getContext("2d");
-      if (!ctx) return;
-
-      ctx.drawImage(video, 0, 0, w, h);
-
-      const barcodes = await detector.detect(canvas);
-      if (Array.isArray(barcodes) && barcodes.length) {
-        const raw = String(barcodes[0]?.rawValue || barcodes[0]?.value || "").trim();
-        if (raw) commitScan(raw);
-      }
-    } catch {
-      return;
-    } finally {
-      scanInFlightRef.current = false;
-    }
-  }, [commitScan]);
-
-  useEffect(() => {
-    if (!cameraOpen) {
-      stopCamera();
-      return;
-    }
-
-    let cancelled = false;
-
-    (async () => {
-      setCameraError(null);
-
-      try {
-        // @ts-ignore
-        if ((screen as any)?.orientation?.lock) await (screen as any).orientation.lock("portrait");
-      } catch {
-        return;
-      }
-
-      if (typeof navigator === "undefined" || !navigator.mediaDevices?.getUserMedia) {
-        setCameraError("Camera is not available in this environment.");
-        return;
-      }
-
-      const video = videoRef.current;
-      if (!video) {
-        setCameraError("Camera view failed to initialize.");
-        return;
-      }
-
-      try {
-        const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: { ideal: "environment" } }, audio: false });
-        if (cancelled) {
-          for (const track of stream.getTracks()) track.stop();
-          return;
-        }
-
-        streamRef.current = stream;
-        video.srcObject = stream;
-        await video.play();
-      } catch (e: any) {
-        setCameraError(e?.message || "Unable to access camera.");
-        return;
-      }
-
-      const Detector = await resolveBarcodeDetectorCtor();
-
-      if (Detector) {
-        try {
-          const desired = ["code_128", "code_39", "ean_13", "ean_8", "upc_a", "upc_e", "qr_code", "pdf417", "data_matrix"];
-          let supported: string[] | null = null;
-          const AnyDetector: any = Detector as any;
-          if (typeof AnyDetector.getSupportedFormats === "function") {
-            try {
-              supported = await AnyDetector.getSupportedFormats();
-            } catch {
-              supported = null;
-            }
-          }
-          const formats = supported ? desired.filter((f) => supported!.includes(f)) : desired;
-          detectorRef.current = formats.length ? new (Detector as any)({ formats }) : new (Detector as any)();
-        } catch {
-          detectorRef.current = null;
-        }
-
-        if (!detectorRef.current) {
-          setCameraError("Barcode scanning is not supported on this browser. Use manual entry.");
-          return;
-        }
-
-        if (!scanIntervalRef.current) {
-          scanIntervalRef.current = window.setInterval(() => {
-            scanLoop();
-          }, 220) as any;
-        }
+    if (mode === "offline") {
+      setLookupResult({ ok: false, message: "Offline: ticket lookup needs a connection." });
+      return;
+    }
+
+    if (!client) return;
 
+    try {
+      const found = await client.getTicket(ticket.trim());
+      if (!found) {
+        setLookupResult({ ok: false, message: mode === "mock" ? "Ticket not found. Try INC-10001 or SR-20498." : "Ticket not found." });
         return;
       }
+      setLookupResult({ ok: true, message: `Ticket found. Assets attached: ${found.assets.length}.`, assets: found.assets });
+    } catch (e: any) {
+      setLookupResult({ ok: false, message: String(e?.message || e) });
+    }
+  }, [ticket, mode, client]);
 
-      try {
-        const mod: any = await import(/* @vite-ignore */ "https://cdn.jsdelivr.net/npm/@zxing/browser@0.1.5/+esm");
-        const Reader = mod?.BrowserMultiFormatReader;
-        if (!Reader) throw new Error("ZXing load failed");
-
-        const reader = new Reader();
-        zxingReaderRef.current = reader;
-
-        const controls = reader.decodeFromVideoDevice(
-          undefined,
-          video,
-          (result: any, err: any) => {
-            if (cancelled) return;
-            const txt = result?.getText ? result.getText() : result?.text;
-            if (txt) commitScan(String(txt));
-          }
-        );
+  const submit = useCallback(async () => {
+    setSubmitResult(null);
 
-        zxingControlsRef.current = controls;
-        setCameraError(null);
-      } catch {
-        setCameraError("Barcode scanning is not supported on iPhone browsers. Use manual entry, or open on Android/desktop for live scanning.");
-        return;
-      }
-    })();
+    const t = ticket.trim();
+    if (!t) {
+      setSubmitResult({ ok: false, message: "Ticket number is required." });
+      return;
+    }
+    if (scanned.length === 0) {
+      setSubmitResult({ ok: false, message: "Scan at least one asset barcode." });
+      return;
+    }
 
-    return () => {
-      cancelled = true;
-      stopCamera();
-      try {
-        // @ts-ignore
-        if ((screen as any)?.orientation?.unlock) (screen as any).orientation.unlock();
-      } catch {
-        return;
-      }
-    };
-  }, [cameraOpen, scanLoop, stopCamera]);
+    try {
+      const res = await outbox.submit({ ticketNumber: t, barcodes: scanned, status, location, technician: technician ?? undefined });
+      if (res?.ok) {
+        setSubmitResult({ ok: true, message: `Submitted. Attached ${res.attached} assets. Status → ${status}. Location → ${location}.` });
+        if (res.assets.length) setLookupResult({ ok: true, message: `Ticket found. Assets attached: ${res.assets.length}.`, assets: res.assets });
+      } else if (res && !res.retryable) setSubmitResult({ ok: false, message: `${res.error} Kept in Pending uploads.` });
+      else setSubmitResult({ ok: true, message: "Saved to Pending uploads. It will be sent automatically when the connection returns." });
+    } catch (e: any) {
+      setSubmitResult({ ok: false, message: String(e?.message || e) });
+    }
+  }, [ticket, scanned, status, location, outbox, technician]);
 
-  const openCamera = useCallback(() => {
-    setCameraError(null);
-    setCameraOpen(true);
-  }, []);
+  const closeScanner = useCallback(() => setScanTarget(null), []);
 
   return (
     <>
@@ -1521,6 +2780,10 @@ function AssetDeployment({ headerBadge, onHome, onOpenSettings, mode, theme }: a
 
             <div style={{ display: "flex", gap: 10, flexWrap: "wrap", maxWidth: "100%" }}>
               <Button variant="secondary" onClick={lookupTicket}>Check ticket</Button>
+              <Button variant="secondary" onClick={() => setScanTarget("ticket")}>
+                <ScanLine style={{ height: 16, width: 16, color: theme.accent }} />
+                Scan ticket
+              </Button>
             </div>
 
             {lookupResult ? <div style={{ fontSize: 13, color: lookupResult.ok ? theme.text : "rgba(220,38,38,0.95)", maxWidth: "100%" }}>{lookupResult.message}</div> : null}
@@ -1540,7 +2803,7 @@ function AssetDeployment({ headerBadge, onHome, onOpenSettings, mode, theme }: a
                 <Package style={{ height: 16, width: 16, color: theme.accent }} />
                 Add
               </Button>
-              <Button variant="secondary" onClick={openCamera} style={{ flex: "0 0 auto" }}>
+              <Button variant="secondary" onClick={() => setScanTarget("assets")} style={{ flex: "0 0 auto" }}>
                 <ScanLine style={{ height: 16, width: 16, color: theme.accent }} />
                 Camera
               </Button>
@@ -1591,72 +2854,22 @@ function AssetDeployment({ headerBadge, onHome, onOpenSettings, mode, theme }: a
             {submitResult ? <div style={{ fontSize: 13, color: submitResult.ok ? theme.text : "rgba(220,38,38,0.95)", maxWidth: "100%" }}>{submitResult.message}</div> : null}
           </div>
         </SurfaceCard>
-      </PhoneFrame>
 
-      {cameraOpen ? (
-        <div
-          role="dialog"
-          aria-modal="true"
-          style={{
-            position: "fixed",
-            inset: 0,
-            zIndex: 90,
-            background: "rgba(0,0,0,0.78)",
-            display: "flex",
-            alignItems: "center",
-            justifyContent: "center",
-            padding: 12,
-            fontFamily: "ui-rounded, ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial",
-          }}
-          onClick={closeCamera}
-        >
-          <div
-            style={{
-              width: "100%",
-              maxWidth: 390,
-              borderRadius: 22,
-              overflow: "hidden",
-              border: "1px solid rgba(255,255,255,0.18)",
-              background: "#0b0b0b",
-              color: "#fff",
-              boxShadow: "0 28px 80px rgba(0,0,0,0.55)",
-              minWidth: 0,
-            }}
-            onClick={(e) => e.stopPropagation()}
-          >
-            <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", padding: 12, borderBottom: "1px solid rgba(255,255,255,0.14)", gap: 10 }}>
-              <div style={{ fontWeight: 900, fontSize: 13, letterSpacing: 0.2 }}>SCAN BARCODE</div>
-              <button
-                onClick={closeCamera}
-                style={{
-                  height: 34,
-                  width: 34,
-                  borderRadius: 12,
-                  display: "inline-flex",
-                  alignItems: "center",
-                  justifyContent: "center",
-                  border: "1px solid rgba(255,255,255,0.18)",
-                  background: "rgba(255,255,255,0.08)",
-                  color: "#fff",
-                  cursor: "pointer",
-                }}
-                aria-label="Close camera"
-              >
-                <X style={{ height: 18, width: 18 }} />
-              </button>
-            </div>
+        <PendingUploads entries={outbox.entries} error={outbox.error} onRetry={outbox.retry} onDiscard={outbox.discard} theme={theme} />
+      </PhoneFrame>
 
-            <div style={{ padding: 12 }}>
-              <div style={{ borderRadius: 16, overflow: "hidden", border: "1px solid rgba(255,255,255,0.14)", background: "#000" }}>
-                <video ref={videoRef} playsInline muted style={{ width: "100%", height: "auto", display: "block" }} />
-                <canvas ref={canvasRef} style={{ display: "none" }} />
-              </div>
-              {cameraError ? <div style={{ marginTop: 10, fontSize: 12, color: "#ffb4b4" }}>{cameraError}</div> : null}
-              <div style={{ marginTop: 10, fontSize: 12, opacity: 0.85 }}>Point at a barcode. Each scan will add to your list. Close to stop.</div>
-            </div>
-          </div>
-        </div>
-      ) : null}
+      <ScannerDialog open={scanTarget === "assets"} title="SCAN BARCODE" hint="Point at a barcode. Each scan will add to your list. Close to stop." onResult={addCode} onClose={closeScanner} />
+      <ScannerDialog
+        open={scanTarget === "ticket"}
+        title="SCAN TICKET"
+        hint="Point at the ticket's barcode."
+        mode="single"
+        onResult={(code) => {
+          setTicket(code);
+          setLookupResult(null);
+        }}
+        onClose={closeScanner}
+      />
 
       {toast ? (
         <div
@@ -1689,7 +2902,48 @@ function AssetDeployment({ headerBadge, onHome, onOpenSettings, mode, theme }: a
 }
 
 export default function VirtualToolboxPrototype() {
-  const { mode, jobsites, beaconAssets, setBeaconAssets } = useBackendOrMock();
+  const [envProfiles, setEnvProfiles] = useState<EnvProfile[]>(loadProfiles);
+  const [envProfileId, setEnvProfileId] = useState<EnvProfileId>(loadActiveProfileId);
+  const activeProfile = envProfiles.find((p) => p.id === envProfileId);
+  const baseUrl = normalizeBaseUrl(activeProfile?.baseUrl || API_BASE);
+  const issuer = normalizeBaseUrl(activeProfile?.issuer ?? "");
+  const auth = useAuth(issuer);
+  const technician = auth.session?.technician ?? null;
+  const sessionRole = auth.session ? auth.session.role : null;
+
+  const saveEnvProfile = useCallback((id: EnvProfileId, draft: ProfileDraft) => {
+    setEnvProfiles((prev) => {
+      const next = prev.map((p) => (p.id === id ? { ...p, ...draft } : p));
+      saveProfiles(next);
+      return next;
+    });
+  }, []);
+
+  const activateEnvProfile = useCallback((id: EnvProfileId) => {
+    setEnvProfileId(id);
+    saveActiveProfileId(id);
+  }, []);
+
+  const { mode, transition, lastProbeAt, probe, client, jobsites, beaconAssets, setBeaconAssets, syncedAt, recordSync, resetLocalData, dataError, setDataError } = useConnectionManager(baseUrl);
+
+  // Tokens without role claims (and backends without sign-in) fall back to what /api/me reports.
+  const sessionId = auth.session?.technician.id ?? null;
+  useEffect(() => {
+    if (mode !== "backend" || sessionRole) return;
+    let cancelled = false;
+    api
+      .me()
+      .then((me) => {
+        if (!cancelled) setServerRole(me.role);
+      })
+      .catch((e) => {
+        if (!cancelled && e instanceof ApiError && !e.retryable) setServerRole(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, baseUrl, sessionId, sessionRole]);
+  const outbox = useOutbox(mode);
 
   const [themeKey, setThemeKey] = useState<ThemeKey>(() => {
     try {
@@ -1710,13 +2964,47 @@ export default function VirtualToolboxPrototype() {
 
   const theme = THEMES[themeKey];
 
-  const headerBadge = mode === "checking" ? <Badge variant="secondary">Checking…</Badge> : mode === "backend" ? <Badge>Backend</Badge> : <Badge variant="secondary">Mock</Badge>;
+  const [offlineError, setOfflineError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    registerServiceWorker().then((error) => {
+      if (!cancelled) setOfflineError(error);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const headerBadge = transition ? (
+    transition.to === "backend" ? (
+      <Badge>Back online</Badge>
+    ) : (
+      <Badge variant="destructive">Connection lost</Badge>
+    )
+  ) : mode === "checking" ? (
+    <Badge variant="secondary">Checking…</Badge>
+  ) : mode === "backend" ? (
+    <Badge>Backend</Badge>
+  ) : mode === "offline" ? (
+    <Badge variant="destructive">Offline (cached)</Badge>
+  ) : (
+    <Badge variant="secondary">Mock</Badge>
+  );
 
   const [route, setRoute] = useState<Route>("toolbox");
-  const [settingsOpen, setSettingsOpen] = useState(false);
 
-  const [importFile, setImportFile] = useState<any>(null);
-  const [importResult, setImportResult] = useState<any>(null);
+  // Demo accounts belong to demo data. Anywhere else their made-up name and role would end up on real records,
+  // including movements queued while offline, so leaving mock mode ends the demo session.
+  const demoSession = auth.session?.kind === "demo";
+  useEffect(() => {
+    if (demoSession && mode !== "checking" && mode !== "mock") signOut();
+  }, [demoSession, mode]);
+
+  const signedIn = !!auth.session && (!demoSession || mode === "mock");
+  const needsSignIn = !signedIn && mode !== "checking" && (!!issuer || mode === "mock");
+  const screen: Screen = needsSignIn ? "login" : route;
+  const [settingsOpen, setSettingsOpen] = useState(false);
 
   const [beaconHomeSelectedMajor, setBeaconHomeSelectedMajor] = useState("");
   const [beaconTab, setBeaconTab] = useState<BeaconTab>("nearby");
@@ -1726,58 +3014,140 @@ export default function VirtualToolboxPrototype() {
 
   const [ranged, setRanged] = useState<Map<string, RangeState>>(() => new Map());
 
-  const [simRunning, setSimRunning] = useState(true);
+  const [floorPlans, setFloorPlans] = useState<Record<number, FloorPlan | null>>({});
+  const [floorPlanErrors, setFloorPlanErrors] = useState<Record<number, string>>({});
+
+  const [scanRunning, setScanRunning] = useState(true);
+  const [sourceError, setSourceError] = useState<string | null>(null);
   const [simTargetKey, setSimTargetKey] = useState<string | null>(null);
-  const simStateRef = useRef<Record<string, { meters: number }>>({});
+  const simAssetsRef = useRef<Asset[]>([]);
+  const simAnchorsRef = useRef<Anchor[]>([]);
+  const simTargetKeyRef = useRef<string | null>(null);
+  const [scenarioId, setScenarioId] = useState<string | null>(null);
+  const scenarioRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    scenarioRef.current = scenarioId;
+  }, [scenarioId]);
 
-  const [targetGeo, setTargetGeo] = useState<Record<string, Geo>>({});
+  const [beaconSourceKind, setBeaconSourceKind] = useState<BeaconSourceKind>(() => {
+    try {
+      const v = localStorage.getItem("fs_toolbox_beacon_source");
+      return BEACON_SOURCE_KINDS.includes(v as BeaconSourceKind) && v !== "replay" ? (v as BeaconSourceKind) : "simulator";
+    } catch {
+      return "simulator";
+    }
+  });
 
   useEffect(() => {
-    const buildFallback = () => {
-      const next: Record<string, Geo> = {};
-      for (const a of beaconAssets) {
-        const k = beaconKey(a.beacon);
-        if (!next[k]) next[k] = { lat: 33.5207 + (Math.random() - 0.5) * 0.002, lon: -86.8025 + (Math.random() - 0.5) * 0.002 };
-      }
-      setTargetGeo(next);
-    };
+    try {
+      localStorage.setItem("fs_toolbox_beacon_source", beaconSourceKind);
+    } catch {
+      return;
+    }
+  }, [beaconSourceKind]);
 
-    if (typeof navigator === "undefined" || !navigator.geolocation) {
-      buildFallback();
+  const [rangeFilterKind, setRangeFilterKind] = useState<RangeFilterKind>(() => {
+    try {
+      const v = localStorage.getItem("fs_toolbox_range_filter");
+      return RANGE_FILTER_KINDS.includes(v as RangeFilterKind) ? (v as RangeFilterKind) : "median_ema";
+    } catch {
+      return "median_ema";
+    }
+  });
+  const rangeFilterRef = useRef(rangeFilterKind);
+
+  useEffect(() => {
+    rangeFilterRef.current = rangeFilterKind;
+    try {
+      localStorage.setItem("fs_toolbox_range_filter", rangeFilterKind);
+    } catch {
       return;
     }
+  }, [rangeFilterKind]);
 
-    let cancelled = false;
+  const [environmentFactor, setEnvironmentFactor] = useState<number>(() => {
+    try {
+      const v = Number(localStorage.getItem("fs_toolbox_env_factor"));
+      return v > 0 ? v : DEFAULT_ENVIRONMENT_FACTOR;
+    } catch {
+      return DEFAULT_ENVIRONMENT_FACTOR;
+    }
+  });
+  const environmentFactorRef = useRef(environmentFactor);
 
-    navigator.geolocation.getCurrentPosition(
-      (p) => {
-        if (cancelled) return;
-        const base: Geo = { lat: p.coords.latitude, lon: p.coords.longitude };
-        const next: Record<string, Geo> = {};
-        for (const a of beaconAssets) {
-          const k = beaconKey(a.beacon);
-          if (next[k]) continue;
-          const r = 45 * Math.sqrt(Math.random());
-          const theta = Math.random() * Math.PI * 2;
-          const dx = r * Math.cos(theta);
-          const dy = r * Math.sin(theta);
-          const dLat = dy / 111111;
-          const dLon = dx / (111111 * Math.cos((base.lat * Math.PI) / 180));
-          next[k] = { lat: base.lat + dLat, lon: base.lon + dLon };
-        }
-        setTargetGeo(next);
-      },
-      () => {
-        if (cancelled) return;
-        buildFallback();
-      },
-      { enableHighAccuracy: true, maximumAge: 10000, timeout: 8000 }
-    );
+  useEffect(() => {
+    environmentFactorRef.current = environmentFactor;
+    try {
+      localStorage.setItem("fs_toolbox_env_factor", String(environmentFactor));
+    } catch {
+      return;
+    }
+  }, [environmentFactor]);
 
-    return () => {
-      cancelled = true;
-    };
-  }, [beaconAssets]);
+  const traceRecorder = useMemo(() => createTraceRecorder(), []);
+  const [traceRecording, setTraceRecording] = useState(false);
+  const [traceCount, setTraceCount] = useState(0);
+  const [replayTrace, setReplayTrace] = useState<TraceRecord[] | null>(null);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [traceMessage, setTraceMessage] = useState<{ ok: boolean; message: string } | null>(null);
+  const replayTraceRef = useRef<TraceRecord[] | null>(null);
+  const replaySpeedRef = useRef(1);
+
+  useEffect(() => {
+    replayTraceRef.current = replayTrace;
+  }, [replayTrace]);
+
+  useEffect(() => {
+    replaySpeedRef.current = replaySpeed;
+  }, [replaySpeed]);
+
+  useEffect(() => {
+    if (!traceRecording) return;
+    const id = window.setInterval(() => setTraceCount(traceRecorder.records().length), 1000);
+    return () => window.clearInterval(id);
+  }, [traceRecording, traceRecorder]);
+
+  const simulatorSource = useMemo(
+    () => createSimulatorSource({ getAssets: () => simAssetsRef.current, getTargetKey: () => simTargetKeyRef.current, getScenario: () => findScenario(scenarioRef.current), getAnchors: () => simAnchorsRef.current }),
+    []
+  );
+
+  const beaconSources = useMemo<Record<BeaconSourceKind, BeaconSource>>(
+    () => ({
+      simulator: simulatorSource,
+      web_bluetooth: createWebBluetoothSource({ uuid: ORG_UUID, getEnvironmentFactor: () => environmentFactorRef.current }),
+      replay: createReplaySource({ getTrace: () => replayTraceRef.current, getSpeed: () => replaySpeedRef.current }),
+    }),
+    [simulatorSource]
+  );
+
+  const beaconSource = beaconSources[beaconSourceKind];
+  const beaconSourceRef = useRef(beaconSource);
+  const rangedFromReplayRef = useRef(false);
+
+  useEffect(() => {
+    beaconSourceRef.current = beaconSource;
+  }, [beaconSource]);
+
+  const geo = useGeoWatch(route === "beacon_app");
+  const geoFixRef = useRef<GeoFix | null>(null);
+  const modeRef = useRef(mode);
+
+  useEffect(() => {
+    modeRef.current = mode;
+  }, [mode]);
+  const [sightings, setSightings] = useState<Record<string, Sighting[]>>(() => loadSightings());
+  const sightingsRef = useRef(sightings);
+
+  useEffect(() => {
+    geoFixRef.current = geo.fix;
+  }, [geo.fix]);
+
+  useEffect(() => {
+    sightingsRef.current = sightings;
+    saveSightings(sightings);
+  }, [sightings]);
 
   const goToolbox = useCallback(() => {
     setRoute("toolbox");
@@ -1788,42 +3158,39 @@ export default function VirtualToolboxPrototype() {
 
   const refreshBeaconAssets = useCallback(
     async (majorFilter?: string) => {
-      if (mode !== "backend") return;
+      if (!client) return;
       const major = majorFilter ?? beaconJobsiteMajor;
-      const url = major === "all" ? `${API_BASE}/api/assets` : `${API_BASE}/api/assets?major=${encodeURIComponent(String(major))}`;
-      const a = await (await fetch(url)).json();
-      setBeaconAssets(a.assets || []);
+      try {
+        const assets = await client.listAssets(major === "all" ? undefined : Number(major));
+        setBeaconAssets(assets);
+        setDataError(null);
+        if (mode === "backend" && major === "all") recordSync(assets);
+      } catch (e: any) {
+        if (e instanceof ApiError && e.retryable) {
+          probe();
+          return;
+        }
+        setDataError(String(e?.message || e));
+      }
     },
-    [mode, beaconJobsiteMajor, setBeaconAssets]
+    [client, mode, beaconJobsiteMajor, setBeaconAssets, recordSync, setDataError, probe]
   );
 
-  const importBeaconAssetsCsv = useCallback(async () => {
-    setImportResult(null);
-
-    if (mode !== "backend") {
-      setImportResult({ ok: false, message: "Import requires backend mode." });
-      return;
-    }
-    if (!importFile) {
-      setImportResult({ ok: false, message: "Select a CSV file first." });
-      return;
-    }
+  // The whole list, whatever jobsite filter the Beacon Finder has applied, so imports can check for duplicates.
+  const loadAllAssets = useCallback(async () => {
+    if (!client) throw new Error("Offline: import needs a connection.");
+    return client.listAssets();
+  }, [client]);
 
-    try {
-      const fd = new FormData();
-      fd.append("file", importFile);
-      const r = await fetch(`${API_BASE}/api/import/assets`, { method: "POST", body: fd });
-      const j = await r.json();
-      if (!r.ok) {
-        setImportResult({ ok: false, message: j?.error || "Import failed" });
-        return;
-      }
-      setImportResult({ ok: true, message: `Imported: ${j.created} created, ${j.skipped} skipped, ${j.errors} errors.` });
+  const importAssetsFile = useCallback(
+    async (file: File) => {
+      if (!client) throw new Error("Offline: import needs a connection.");
+      const summary = await client.importAssets(file);
       await refreshBeaconAssets();
-    } catch (e: any) {
-      setImportResult({ ok: false, message: String(e?.message || e) });
-    }
-  }, [mode, importFile, refreshBeaconAssets]);
+      return summary;
+    },
+    [client, refreshBeaconAssets]
+  );
 
   const enterBeaconProject = useCallback((major: string) => {
     setBeaconJobsiteMajor(String(major));
@@ -1845,12 +3212,43 @@ export default function VirtualToolboxPrototype() {
       });
   }, [beaconAssets, beaconJobsiteMajor, beaconQ]);
 
+  const exportSources = useMemo((): ExportSource[] => {
+    const site = beaconJobsiteMajor === "all" ? "All jobsites" : jobsites.find((j: Jobsite) => String(j.major) === beaconJobsiteMajor)?.name ?? `Jobsite ${beaconJobsiteMajor}`;
+    return [
+      {
+        id: "assets",
+        label: "Assets",
+        detail: `${filteredBeaconAssets.length} in the Beacon Finder view (${site}${beaconQ.trim() ? `, matching “${beaconQ.trim()}”` : ""}).`,
+        disabledReason: filteredBeaconAssets.length ? null : "No assets in the Beacon Finder view.",
+        load: async () => assetsTable(filteredBeaconAssets, { jobsites, ranged, sightings }),
+      },
+      {
+        id: "ranging",
+        label: "Ranging snapshot",
+        detail: `${ranged.size} beacon${ranged.size === 1 ? "" : "s"} heard this session.`,
+        disabledReason: ranged.size ? null : "No beacons heard yet.",
+        load: async () => rangingTable(ranged, { assets: beaconAssets, jobsites, stability: (s) => stabilityLabel(s.madMeters, s.variance).label }),
+      },
+      {
+        id: "deployments",
+        label: "Deployment history",
+        detail: "Every asset movement recorded by the backend.",
+        disabledReason: client ? null : "Offline: history needs a connection.",
+        load: async () => {
+          if (!client) throw new Error("Offline: history needs a connection.");
+          return movementsTable(await client.listMovements());
+        },
+      },
+    ];
+  }, [filteredBeaconAssets, beaconAssets, beaconJobsiteMajor, beaconQ, jobsites, ranged, sightings, client]);
+
   const beaconRows = useMemo(() => {
+    const now = sourceNowMs(beaconSource);
     return filteredBeaconAssets
       .map((a: Asset) => {
         const k = beaconKey(a.beacon);
         const s = ranged.get(k);
-        const age = s ? nowMs() - s.lastSeenMs : null;
+        const age = s ? now - s.lastSeenMs : null;
         const fresh = s ? age <= 3000 : false;
         return {
           asset: a,
@@ -1861,6 +3259,7 @@ export default function VirtualToolboxPrototype() {
           meters: s?.emaMeters ?? null,
           madMeters: s?.madMeters ?? null,
           deltaMeters: s?.deltaMeters ?? null,
+          variance: s?.variance ?? null,
           rssi: s?.lastRssi ?? null,
         };
       })
@@ -1871,69 +3270,168 @@ export default function VirtualToolboxPrototype() {
         if (dx !== dy) return dx - dy;
         return (x.asset.displayName || "").localeCompare(y.asset.displayName || "");
       });
-  }, [filteredBeaconAssets, ranged]);
-
-  const ingestObservation = useCallback((key: string, metersVal: number, rssi: number) => {
-    setRanged((prev) => {
-      const next = new Map(prev);
-      const curr: RangeState =
-        next.get(key) || {
-          samples: [],
-          lastSeenMs: 0,
-          emaMeters: null,
-          madMeters: null,
-          deltaMeters: null,
-          lastEmaMeters: null,
-          lastRssi: null,
-        };
-
-      const samples = [...curr.samples, metersVal].slice(-18);
-      const med = (median(samples) as number) ?? metersVal;
-      const alpha = 0.25;
-      const ema = curr.emaMeters == null ? med : alpha * med + (1 - alpha) * curr.emaMeters;
-      const m = mad(samples);
-      const delta = curr.lastEmaMeters == null ? null : ema - curr.lastEmaMeters;
-
-      next.set(key, {
-        ...curr,
-        samples,
-        lastSeenMs: nowMs(),
-        lastRssi: rssi,
-        lastEmaMeters: ema,
-        emaMeters: ema,
-        madMeters: m,
-        deltaMeters: delta,
+  }, [filteredBeaconAssets, ranged, beaconSource]);
+
+  const recordSighting = useCallback((obs: BeaconObservation) => {
+    // Simulated and replayed beacons are not where the phone is now; a sighting from them would be a fake location record.
+    if (!beaconSourceRef.current.capabilities().realRadio) return;
+    const sighting = sightingFor(geoFixRef.current, obs, sightingsRef.current[obs.key]?.[0]);
+    if (!sighting) return;
+    sightingsRef.current = addSighting(sightingsRef.current, sighting);
+    setSightings(sightingsRef.current);
+    // Demo mode has nowhere to send them. Otherwise the outbox holds them until the backend is reachable again.
+    if (modeRef.current === "mock") return;
+    outbox.queueSighting(sighting)
+      .then((res) => {
+        // A lost connection is the connection manager's business; anything else is a backend problem worth showing.
+        if (!res || res.ok) return;
+        if (res.retryable) probe();
+        else setDataError(`Sighting upload failed: ${res.error}`);
+      })
+      .catch((e: any) => setDataError(`Sighting upload failed: ${String(e?.message || e)}`));
+  }, [outbox.queueSighting, probe, setDataError]);
+
+  const ingestObservation = useCallback(
+    (obs: BeaconObservation) => {
+      traceRecorder.record(obs);
+      recordSighting(obs);
+      const filter = RANGE_FILTERS[rangeFilterRef.current];
+      setRanged((prev) => {
+        const next = new Map(prev);
+        next.set(obs.key, filter.update(next.get(obs.key), { meters: obs.meters, rssi: obs.rssi, ts: obs.ts }));
+        return next;
       });
+    },
+    [traceRecorder, recordSighting]
+  );
 
-      return next;
-    });
+  const startTraceRecording = useCallback(() => {
+    traceRecorder.start();
+    setTraceRecording(true);
+    setTraceCount(0);
+    setTraceMessage(null);
+  }, [traceRecorder]);
+
+  const stopTraceRecording = useCallback(() => {
+    traceRecorder.stop();
+    setTraceRecording(false);
+    setTraceCount(traceRecorder.records().length);
+  }, [traceRecorder]);
+
+  const downloadTrace = useCallback(() => {
+    const records = traceRecorder.records();
+    if (!records.length) return;
+    downloadText(timestampedName("ranging-trace", "jsonl"), serializeTrace(records), "application/x-ndjson");
+  }, [traceRecorder]);
+
+  const loadTrace = useCallback(async (file: File | null) => {
+    setTraceMessage(null);
+    if (!file) return;
+    try {
+      const { records, invalid } = parseTrace(await file.text());
+      if (!records.length) {
+        setTraceMessage({ ok: false, message: "No observations found in that file." });
+        return;
+      }
+      setReplayTrace(records);
+      replayTraceRef.current = records;
+      setBeaconSourceKind("replay");
+      setTraceMessage({ ok: true, message: `Loaded ${records.length} observations${invalid ? ` (${invalid} invalid lines skipped)` : ""}. Beacon source set to Replay.` });
+    } catch (e: any) {
+      setTraceMessage({ ok: false, message: String(e?.message || e) });
+    }
   }, []);
 
   useEffect(() => {
-    if (!simRunning) return;
-    if (route !== "beacon_app") return;
+    simAssetsRef.current = beaconAssets
+      .filter((a: Asset) => (beaconJobsiteMajor === "all" ? true : a.jobsiteMajor === Number(beaconJobsiteMajor)))
+      .filter((a: Asset) => a.simulate !== false)
+      .slice(0, 12);
+  }, [beaconAssets, beaconJobsiteMajor]);
 
-    const id = window.setInterval(() => {
-      const audible = beaconAssets
-        .filter((a: Asset) => (beaconJobsiteMajor === "all" ? true : a.jobsiteMajor === Number(beaconJobsiteMajor)))
-        .filter((a: Asset) => a.simulate !== false)
-        .slice(0, 12);
+  const anchorsFor = useCallback(
+    (major: number | undefined) => anchorsOnPlan(jobsites.find((j: Jobsite) => j.major === major)?.anchors ?? [], major == null ? null : floorPlans[major]),
+    [jobsites, floorPlans]
+  );
 
-      for (const a of audible) {
-        const k = beaconKey(a.beacon);
-        const st = (simStateRef.current[k] ||= { meters: 6 + Math.random() * 25 });
+  useEffect(() => {
+    const major = beaconJobsiteMajor === "all" ? selectedRow?.asset.jobsiteMajor : Number(beaconJobsiteMajor);
+    simAnchorsRef.current = anchorsFor(major);
+  }, [anchorsFor, beaconJobsiteMajor, selectedRow]);
+
+  useEffect(() => {
+    setFloorPlans({});
+    setFloorPlanErrors({});
+  }, [mode, baseUrl]);
+
+  const planJobsite = beaconJobsiteMajor === "all" ? null : jobsites.find((j: Jobsite) => j.major === Number(beaconJobsiteMajor)) ?? null;
 
-        const toward = simTargetKey === k;
-        const drift = toward ? -0.35 : 0.05;
-        st.meters = clamp(st.meters + drift + (Math.random() - 0.5) * 0.6, 0.8, 35);
+  useEffect(() => {
+    if (route !== "beacon_app" || mode === "checking" || !planJobsite) return;
+    const major = planJobsite.major;
+    if (floorPlans[major] !== undefined) return;
 
-        const rssi = Math.round(-45 - 18 * Math.log10(st.meters) + (Math.random() - 0.5) * 10);
-        ingestObservation(k, st.meters, rssi);
+    let cancelled = false;
+    (async () => {
+      try {
+        const plan = await fetchFloorPlan(mode, major);
+        if (cancelled) return;
+        setFloorPlans((prev) => ({ ...prev, [major]: plan }));
+      } catch (e: any) {
+        if (cancelled) return;
+        setFloorPlans((prev) => ({ ...prev, [major]: null }));
+        setFloorPlanErrors((prev) => ({ ...prev, [major]: String(e?.message || e) }));
       }
-    }, 650);
+    })();
 
-    return () => window.clearInterval(id);
-  }, [simRunning, route, beaconAssets, beaconJobsiteMajor, simTargetKey, ingestObservation]);
+    return () => {
+      cancelled = true;
+    };
+  }, [route, mode, planJobsite, floorPlans]);
+
+  const saveFloorPlan = useCallback(
+    async (plan: FloorPlan) => {
+      const saved = await storeFloorPlan(mode, plan);
+      setFloorPlans((prev) => ({ ...prev, [plan.jobsiteMajor]: saved }));
+      setFloorPlanErrors((prev) => {
+        const next = { ...prev };
+        delete next[plan.jobsiteMajor];
+        return next;
+      });
+    },
+    [mode]
+  );
+
+  useEffect(() => {
+    simTargetKeyRef.current = simTargetKey;
+  }, [simTargetKey]);
+
+  useEffect(() => {
+    if (!scanRunning) return;
+    if (route !== "beacon_app") return;
+
+    const caps = beaconSource.capabilities();
+    if (!caps.supported) {
+      setSourceError(caps.reason || `${beaconSource.label} is not available.`);
+      setScanRunning(false);
+      return;
+    }
+
+    setSourceError(null);
+    // Replayed states are stamped on the replay's clock, which does not mix with the wall clock in either direction.
+    if (beaconSource.kind === "replay" || rangedFromReplayRef.current) setRanged(new Map());
+    rangedFromReplayRef.current = beaconSource.kind === "replay";
+    beaconSource.start(
+      ingestObservation,
+      (message) => {
+        setSourceError(message);
+        setScanRunning(false);
+      },
+      () => setScanRunning(false)
+    );
+
+    return () => beaconSource.stop();
+  }, [scanRunning, route, beaconSource, ingestObservation]);
 
   const jobsiteName = useCallback(
     (major: number) => {
@@ -1955,47 +3453,122 @@ export default function VirtualToolboxPrototype() {
     setSimTargetKey(null);
   }, []);
 
+  const deleteAsset = useCallback(
+    async (asset: Asset) => {
+      if (!client) return;
+      await client.deleteAsset(asset.id);
+      onBackFromFind();
+      await refreshBeaconAssets();
+    },
+    [client, onBackFromFind, refreshBeaconAssets]
+  );
+
   const [commMinor, setCommMinor] = useState("");
   const [commMajor, setCommMajor] = useState("23456");
   const [commType, setCommType] = useState("Access Point");
   const [commTag, setCommTag] = useState("C1234");
 
+  const commInput = useMemo(() => ({ jobsiteMajor: commMajor, minor: commMinor, assetType: commType, assetTag: commTag }), [commMajor, commMinor, commType, commTag]);
+  const commCheck = useMemo(() => validateCommission(commInput, { jobsites, existing: beaconAssets, technician }), [commInput, jobsites, beaconAssets, technician]);
+  const [commSaving, setCommSaving] = useState(false);
+  // What the last save attempt turned up; cleared as soon as the form changes.
+  const [commFailure, setCommFailure] = useState<{ errors: CommissionErrors; message: string | null } | null>(null);
+
+  useEffect(() => {
+    setCommFailure(null);
+  }, [commInput]);
+
   const commission = useCallback(async () => {
-    const minor = Number(commMinor);
-    const major = Number(commMajor);
-    if (!minor || !major) return;
-
-    const displayName = `${commType} – ${commTag}`;
-    const beacon: Beacon = { uuid: ORG_UUID, major, minor };
-
-    if (mode === "backend") {
-      await fetch(`${API_BASE}/api/assets`, {
-        method: "POST",
-        headers: { "content-type": "application/json" },
-        body: JSON.stringify({ displayName, assetType: commType, assetTag: commTag, jobsiteMajor: major, locationHint: "", beacon }),
-      });
-      await refreshBeaconAssets();
-      setBeaconTab("nearby");
+    if (!client || !can(auth.role, "commission")) return;
+    setCommSaving(true);
+    setCommFailure(null);
+    try {
+      // The Beacon Finder list may be filtered to another jobsite, so check against the target jobsite's current assets.
+      const existing = await client.listAssets(Number(commInput.jobsiteMajor));
+      const { asset, errors } = validateCommission(commInput, { jobsites, existing, technician });
+      if (!asset) {
+        setCommFailure({ errors, message: null });
+        return;
+      }
+      await client.createAsset(asset);
+    } catch (e: any) {
+      if (e instanceof ApiError && e.status === 409) {
+        setCommFailure({ errors: { minor: e.message }, message: null });
+        return;
+      }
+      if (e instanceof ApiError && e.retryable) probe();
+      setCommFailure({ errors: {}, message: `Not saved: ${String(e?.message || e)}` });
       return;
+    } finally {
+      setCommSaving(false);
     }
-
-    setBeaconAssets((prev: Asset[]) => [{ id: `m${Math.random().toString(16).slice(2)}`, displayName, assetType: commType, assetTag: commTag, jobsiteMajor: major, locationHint: "", beacon }, ...prev]);
+    setCommMinor("");
+    await refreshBeaconAssets();
     setBeaconTab("nearby");
-  }, [commMinor, commMajor, commType, commTag, mode, refreshBeaconAssets, setBeaconAssets]);
+  }, [commInput, jobsites, client, refreshBeaconAssets, technician, auth.role, probe]);
 
   const selectedState = selectedRow ? ranged.get(selectedRow.key) : null;
 
+  const estimatePosition = useCallback(
+    (major: number) => {
+      const anchors = anchorsFor(major);
+      if (!anchors.length) return null;
+      const ranges = freshAnchorRanges(anchors, ranged, sourceNowMs(beaconSource));
+      return { estimate: trilaterate(ranges), inRange: ranges.length, total: anchors.length };
+    },
+    [anchorsFor, ranged, beaconSource]
+  );
+
+  const position = useMemo(() => (selectedRow ? estimatePosition(selectedRow.asset.jobsiteMajor) : null), [selectedRow, estimatePosition]);
+
+  const planPosition = useMemo(() => (planJobsite ? estimatePosition(planJobsite.major) : null), [planJobsite, estimatePosition]);
+
   const settingsPanel = settingsOpen ? (
     <SettingsModal
       mode={mode}
-      importFile={importFile}
-      setImportFile={setImportFile}
-      importResult={importResult}
-      onImport={importBeaconAssetsCsv}
+      jobsites={jobsites}
+      onLoadAssets={loadAllAssets}
+      onImport={importAssetsFile}
+      exportSources={exportSources}
       onClose={() => setSettingsOpen(false)}
       theme={theme}
       themeKey={themeKey}
       setThemeKey={setThemeKey}
+      beaconSources={beaconSources}
+      beaconSourceKind={beaconSourceKind}
+      setBeaconSourceKind={setBeaconSourceKind}
+      sourceError={sourceError}
+      environmentFactor={environmentFactor}
+      setEnvironmentFactor={setEnvironmentFactor}
+      rangeFilterKind={rangeFilterKind}
+      setRangeFilterKind={setRangeFilterKind}
+      trace={{
+        recording: traceRecording,
+        count: traceCount,
+        onStartRecording: startTraceRecording,
+        onStopRecording: stopTraceRecording,
+        onDownload: downloadTrace,
+        onLoad: loadTrace,
+        loadedCount: replayTrace?.length ?? 0,
+        speed: replaySpeed,
+        setSpeed: setReplaySpeed,
+        message: traceMessage,
+      }}
+      simulator={simulatorSource}
+      scenarioId={scenarioId}
+      setScenarioId={setScenarioId}
+      syncedAt={syncedAt}
+      offlineError={offlineError}
+      lastProbeAt={lastProbeAt}
+      onProbe={probe}
+      onResetLocalData={resetLocalData}
+      envProfiles={envProfiles}
+      envProfileId={envProfileId}
+      onSaveEnvProfile={saveEnvProfile}
+      onActivateEnvProfile={activateEnvProfile}
+      session={auth.session}
+      role={auth.role}
+      onSignOut={auth.signOut}
     />
   ) : null;
 
@@ -2004,30 +3577,38 @@ export default function VirtualToolboxPrototype() {
       <ThemeVars theme={theme}>
         <GlobalStyles themeKey={themeKey} theme={theme} />
 
-        {route === "toolbox" ? (
+        {screen === "login" ? (
+          <>
+            <LoginScreen headerBadge={headerBadge} issuer={issuer} allowDemo={mode === "mock"} completing={auth.completing} error={auth.error} onSignIn={auth.signIn} onDemo={auth.signInDemo} onOpenSettings={() => setSettingsOpen(true)} theme={theme} />
+            {settingsPanel}
+          </>
+        ) : null}
+
+        {screen === "toolbox" ? (
           <>
             <ToolboxHome headerBadge={headerBadge} onOpenBeacon={() => setRoute("beacon_home")} onOpenDeployment={() => setRoute("deployment")} onOpenSettings={() => setSettingsOpen(true)} theme={theme} />
             {settingsPanel}
           </>
         ) : null}
 
-        {route === "beacon_home" ? (
+        {screen === "beacon_home" ? (
           <>
-            <BeaconHome headerBadge={headerBadge} jobsites={jobsites} selectedMajor={beaconHomeSelectedMajor} setSelectedMajor={setBeaconHomeSelectedMajor} onEnter={enterBeaconProject} onGoToolbox={() => setRoute("toolbox")} onOpenSettings={() => setSettingsOpen(true)} theme={theme} />
+            <BeaconHome dataError={dataError} headerBadge={headerBadge} jobsites={jobsites} selectedMajor={beaconHomeSelectedMajor} setSelectedMajor={setBeaconHomeSelectedMajor} onEnter={enterBeaconProject} onGoToolbox={() => setRoute("toolbox")} onOpenSettings={() => setSettingsOpen(true)} theme={theme} />
             {settingsPanel}
           </>
         ) : null}
 
-        {route === "deployment" ? (
+        {screen === "deployment" ? (
           <>
-            <AssetDeployment headerBadge={headerBadge} onHome={() => setRoute("toolbox")} onOpenSettings={() => setSettingsOpen(true)} mode={mode} theme={theme} />
+            <AssetDeployment headerBadge={headerBadge} onHome={() => setRoute("toolbox")} onOpenSettings={() => setSettingsOpen(true)} mode={mode} client={client} outbox={outbox} technician={technician} theme={theme} />
             {settingsPanel}
           </>
         ) : null}
 
-        {route === "beacon_app" ? (
+        {screen === "beacon_app" ? (
           <>
             <BeaconApp
+              dataError={dataError}
               headerBadge={headerBadge}
               jobsites={jobsites}
               jobsiteMajor={beaconJobsiteMajor}
@@ -2036,21 +3617,33 @@ export default function VirtualToolboxPrototype() {
               setQ={setBeaconQ}
               tab={beaconTab}
               setTab={setBeaconTab}
-              simRunning={simRunning}
-              setSimRunning={setSimRunning}
+              scanRunning={scanRunning}
+              setScanRunning={setScanRunning}
+              beaconSource={beaconSource}
               onHome={goToolbox}
               onOpenSettings={() => setSettingsOpen(true)}
               rows={beaconRows}
               onFind={onFind}
               selectedRow={selectedRow}
               selectedState={selectedState}
+              position={position}
               onBackFromFind={onBackFromFind}
+              onDeleteAsset={client && can(auth.role, "delete") ? deleteAsset : undefined}
               simTargetKey={simTargetKey}
               setSimTargetKey={setSimTargetKey}
-              commissionProps={{ commMajor, setCommMajor, commMinor, setCommMinor, commType, setCommType, commTag, setCommTag, onSave: commission }}
+              planProps={{
+                jobsite: planJobsite,
+                plan: planJobsite ? floorPlans[planJobsite.major] : undefined,
+                planError: planJobsite ? floorPlanErrors[planJobsite.major] : undefined,
+                onSavePlan: saveFloorPlan,
+                editDenied: can(auth.role, "floorplan") ? null : deniedReason("floorplan"),
+                position: planPosition,
+              }}
+              commissionProps={{ commMajor, setCommMajor, commMinor, setCommMinor, commType, setCommType, commTag, setCommTag, errors: { ...commCheck.errors, ...commFailure?.errors }, saveError: commFailure?.message ?? null, saving: commSaving, onSave: commission, offline: mode === "offline", denied: can(auth.role, "commission") ? null : deniedReason("commission") }}
               jobsiteName={jobsiteName}
               theme={theme}
-              targetGeo={selectedRow ? targetGeo[selectedRow.key] : null}
+              geo={geo}
+              sighting={selectedRow ? bestSighting(sightings[selectedRow.key]) : null}
             />
             {settingsPanel}
           </>
@@ -0,0 +1,241 @@
+import type { Asset, Jobsite, Movement, MovementPayload, Role, Technician, Ticket } from "./types";
+import { activeBaseUrl } from "./environments";
+import { currentRole, getAccessToken, refreshSession } from "./auth";
+import { can, deniedReason, roleFromClaims, type Permission } from "./permissions";
+import { MOCK_BASE_URL } from "./mockApi";
+import { AssetSchema, JobsiteSchema, MovementSchema, arrayOf, formatIssues, id, num, object, optional, parse, str, type Schema, type SchemaIssue } from "./schema";
+
+export type ApiErrorKind = "network" | "timeout" | "http" | "unauthorized" | "forbidden" | "invalid_response";
+
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status: number | null;
+  path: string;
+  issues: SchemaIssue[];
+
+  constructor(kind: ApiErrorKind, message: string, { status = null, path, issues = [] }: { status?: number | null; path: string; issues?: SchemaIssue[] }) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = status;
+    this.path = path;
+    this.issues = issues;
+  }
+
+  /** Worth trying again later: the request may not have reached the server, the server failed transiently, or the technician needs to sign in again. */
+  get retryable() {
+    if (this.kind === "network" || this.kind === "timeout" || this.kind === "unauthorized") return true;
+    return this.kind === "http" && this.status != null && (this.status >= 500 || this.status === 408 || this.status === 429);
+  }
+}
+
+export type NewAsset = Omit<Asset, "id">;
+
+export type MovementResult = { attached: number; assets: string[] };
+
+/** `problems` lists the rows the server left out and why, when it says. */
+export type ImportSummary = { created: number; skipped: number; errors: number; problems?: { line: number; message: string }[] };
+
+/** Who the backend thinks is calling; `role` is null when it reports none. */
+export type Me = { technician: Technician; role: Role | null };
+
+export type RequestOptions = { method?: string; headers?: Record<string, string>; body?: BodyInit; json?: unknown; timeoutMs?: number; allow404?: boolean };
+
+export interface ApiClient {
+  readonly baseUrl: string;
+  request(path: string, opts?: RequestOptions): Promise<any>;
+  health(): Promise<void>;
+  me(): Promise<Me>;
+  listJobsites(): Promise<Jobsite[]>;
+  listAssets(major?: number): Promise<Asset[]>;
+  createAsset(input: NewAsset): Promise<Asset>;
+  deleteAsset(id: string): Promise<void>;
+  getTicket(ticketNumber: string): Promise<Ticket | null>;
+  postMovement(payload: MovementPayload, idempotencyKey: string): Promise<MovementResult>;
+  listMovements(): Promise<Movement[]>;
+  importAssets(file: File): Promise<ImportSummary>;
+}
+
+const DEFAULT_TIMEOUT_MS = 8000;
+
+export type Fetcher = (url: string, init: RequestInit) => Promise<Response>;
+
+const interceptors = new Map<string, Fetcher>();
+
+/** Answers requests under `baseUrl` with `handler` instead of the network, for every client. */
+export function interceptRequests(baseUrl: string, handler: Fetcher) {
+  interceptors.set(baseUrl, handler);
+  return () => {
+    interceptors.delete(baseUrl);
+  };
+}
+
+const routedFetch: Fetcher = (url, init) => {
+  for (const [base, handler] of interceptors) if (url.startsWith(`${base}/`)) return handler(url, init);
+  return fetch(url, init);
+};
+
+let mockMode = false;
+
+/** Points the shared client at the in-browser demo API instead of the active profile's backend. */
+export function setMockMode(on: boolean) {
+  mockMode = on;
+}
+
+const JobsitesResponse = object<{ jobsites: Jobsite[] }>({ jobsites: arrayOf(JobsiteSchema) });
+const AssetsResponse = object<{ assets: Asset[] }>({ assets: arrayOf(AssetSchema) });
+const AssetResponse = object<{ asset: Asset | undefined; id: string | undefined }>({ asset: optional(AssetSchema), id: optional(id) });
+const TicketResponse = object<{ assets: string[] | undefined }>({ assets: optional(arrayOf(str)) });
+const MovementsResponse = object<{ movements: Movement[] }>({ movements: arrayOf(MovementSchema) });
+const MovementResponse = object<{ attached: number | undefined; assets: string[] | undefined }>({ attached: optional(num), assets: optional(arrayOf(str)) });
+const ImportResponse = object<ImportSummary>({
+  created: num,
+  skipped: num,
+  errors: num,
+  problems: optional(arrayOf(object<{ line: number; message: string }>({ line: num, message: str }))),
+});
+const MeResponse = object<{ id: string; name: string; email: string | undefined; roles: string[] | undefined; role: string | undefined }>({
+  id,
+  name: str,
+  email: optional(str),
+  roles: optional(arrayOf(str)),
+  role: optional(str),
+});
+
+export function createApiClient({
+  baseUrl = activeBaseUrl,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  accessToken = getAccessToken,
+  role = currentRole,
+  fetch: fetchImpl = routedFetch,
+}: {
+  baseUrl?: string | (() => string);
+  timeoutMs?: number;
+  accessToken?: () => Promise<string | null>;
+  role?: () => Role;
+  fetch?: Fetcher;
+} = {}): ApiClient {
+  const base = () => (typeof baseUrl === "function" ? baseUrl() : baseUrl);
+
+  // The backend enforces roles too; checking here keeps forbidden calls from leaving the device at all.
+  const guard = (permission: Permission, path: string) => {
+    if (!can(role(), permission)) throw new ApiError("forbidden", deniedReason(permission), { path });
+  };
+
+  const send = async (path: string, token: string | null, { method = "GET", headers = {}, body, json, timeoutMs: t = timeoutMs }: RequestOptions) => {
+    const ctrl = new AbortController();
+    const timer = setTimeout(() => ctrl.abort(), t);
+    try {
+      return await fetchImpl(`${base()}${path}`, {
+        method,
+        headers: {
+          ...(json === undefined ? {} : { "content-type": "application/json" }),
+          ...(token ? { authorization: `Bearer ${token}` } : {}),
+          ...headers,
+        },
+        body: json === undefined ? body : JSON.stringify(json),
+        signal: ctrl.signal,
+      });
+    } catch {
+      if (ctrl.signal.aborted) throw new ApiError("timeout", `The server did not answer within ${Math.round(t / 1000)} s.`, { path });
+      throw new ApiError("network", "Could not reach the server.", { path });
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const request = async (path: string, opts: RequestOptions = {}) => {
+    let token = await accessToken();
+    let r = await send(path, token, opts);
+
+    // An access token can expire between the check and the request; refresh once and retry.
+    if (r.status === 401 && token) {
+      token = await refreshSession();
+      if (token) r = await send(path, token, opts);
+    }
+    if (r.status === 401) throw new ApiError("unauthorized", "Your sign-in has expired. Sign in again.", { status: 401, path });
+
+    if (opts.allow404 && r.status === 404) return null;
+
+    const text = await r.text().catch(() => "");
+    let data: any = null;
+    if (text) {
+      try {
+        data = JSON.parse(text);
+      } catch {
+        if (r.ok) throw new ApiError("invalid_response", "The server sent a response that is not JSON.", { status: r.status, path });
+      }
+    }
+
+    if (!r.ok) {
+      const message = typeof data?.error === "string" && data.error ? data.error : r.status === 403 ? "Your role does not allow this." : `Request failed (HTTP ${r.status}).`;
+      throw new ApiError(r.status === 403 ? "forbidden" : "http", message, { status: r.status, path });
+    }
+    return data;
+  };
+
+  const validated = <T>(schema: Schema<T>, data: unknown, path: string, what: string): T => {
+    const res = parse(schema, data);
+    if (!res.ok) throw new ApiError("invalid_response", `The server sent a malformed ${what}: ${formatIssues(res.issues)}.`, { path, issues: res.issues });
+    return res.value;
+  };
+
+  return {
+    get baseUrl() {
+      return base();
+    },
+    request,
+    async health() {
+      await request("/api/health", { timeoutMs: Math.min(timeoutMs, 4000) });
+    },
+    async me() {
+      const path = "/api/me";
+      const res = validated(MeResponse, await request(path), path, "user profile");
+      return { technician: { id: res.id, name: res.name, email: res.email }, role: roleFromClaims(res) };
+    },
+    async listJobsites() {
+      const path = "/api/jobsites";
+      return validated(JobsitesResponse, await request(path), path, "jobsite list").jobsites;
+    },
+    async listAssets(major) {
+      const path = major == null ? "/api/assets" : `/api/assets?major=${encodeURIComponent(String(major))}`;
+      return validated(AssetsResponse, await request(path), path, "asset list").assets;
+    },
+    async createAsset(input) {
+      const path = "/api/assets";
+      guard("commission", path);
+      const res = validated(AssetResponse, (await request(path, { method: "POST", json: input })) ?? {}, path, "asset");
+      return res.asset ?? { ...input, id: res.id ?? "" };
+    },
+    async deleteAsset(assetId) {
+      const path = `/api/assets/${encodeURIComponent(assetId)}`;
+      guard("delete", path);
+      await request(path, { method: "DELETE" });
+    },
+    async getTicket(ticketNumber) {
+      const path = `/api/tickets/${encodeURIComponent(ticketNumber)}`;
+      const data = await request(path, { allow404: true });
+      if (data == null) return null;
+      return { ticketNumber, assets: validated(TicketResponse, data, path, "ticket").assets ?? [] };
+    },
+    async postMovement(payload, idempotencyKey) {
+      const path = "/api/asset-movements";
+      const data = await request(path, { method: "POST", headers: { "idempotency-key": idempotencyKey }, json: payload });
+      const res = validated(MovementResponse, data ?? {}, path, "movement result");
+      return { attached: res.attached ?? payload.barcodes.length, assets: res.assets ?? [] };
+    },
+    async listMovements() {
+      const path = "/api/asset-movements";
+      return validated(MovementsResponse, await request(path), path, "deployment history").movements;
+    },
+    async importAssets(file) {
+      const path = "/api/import/assets";
+      guard("import", path);
+      const fd = new FormData();
+      fd.append("file", file);
+      return validated(ImportResponse, await request(path, { method: "POST", body: fd, timeoutMs: Math.max(timeoutMs, 30000) }), path, "import summary");
+    },
+  };
+}
+
+export const api = createApiClient({ baseUrl: () => (mockMode ? MOCK_BASE_URL : activeBaseUrl()) });
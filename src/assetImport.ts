@@ -0,0 +1,105 @@
+import type { Asset, Jobsite } from "./types";
+import type { NewAsset } from "./api";
+import { ORG_UUID } from "./config";
+import { beaconKey, canonicalUuid } from "./beacon/key";
+import { toCsv, type CsvRow } from "./csv";
+
+export type ImportField = "displayName" | "assetType" | "assetTag" | "jobsiteMajor" | "minor" | "uuid" | "locationHint";
+
+/** Column index per field; null when the file has no column for it. */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: "assetTag", label: "Asset tag", required: true },
+  { field: "assetType", label: "Asset type", required: true },
+  { field: "jobsiteMajor", label: "Jobsite (major)", required: true },
+  { field: "minor", label: "Beacon minor", required: true },
+  { field: "displayName", label: "Display name", required: false },
+  { field: "locationHint", label: "Location hint", required: false },
+  { field: "uuid", label: "Beacon UUID", required: false },
+];
+
+/** Header spellings recognised for each field, compared lower-case without spaces, dashes or underscores. */
+export const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  displayName: ["displayname", "name"],
+  assetType: ["assettype", "type"],
+  assetTag: ["assettag", "tag"],
+  jobsiteMajor: ["jobsitemajor", "jobsite", "major"],
+  minor: ["minor", "beaconminor"],
+  uuid: ["uuid", "beaconuuid"],
+  locationHint: ["locationhint", "location"],
+};
+
+export function guessMapping(header: string[]): ColumnMapping {
+  const names = header.map((h) => h.trim().toLowerCase().replace(/[\s_-]+/g, ""));
+  const mapping = {} as ColumnMapping;
+  for (const { field } of IMPORT_FIELDS) {
+    const i = names.findIndex((n) => COLUMN_ALIASES[field].includes(n));
+    mapping[field] = i === -1 ? null : i;
+  }
+  return mapping;
+}
+
+export function missingFields(mapping: ColumnMapping) {
+  return IMPORT_FIELDS.filter((f) => f.required && mapping[f.field] == null);
+}
+
+export type ImportRowStatus = "ready" | "duplicate" | "error";
+
+export type ImportRow = { line: number; status: ImportRowStatus; asset: NewAsset | null; issues: string[] };
+
+const whole = (s: string) => (/^-?\d+$/.test(s) ? Number(s) : NaN);
+
+/** Checks every data row against the jobsites and the assets already commissioned. `line` is where the row starts in the file. */
+export function validateImportRows(rows: CsvRow[], mapping: ColumnMapping, { jobsites, existing }: { jobsites: Jobsite[]; existing: Asset[] }): ImportRow[] {
+  const taken = new Map<string, string>();
+  for (const a of existing) taken.set(beaconKey(a.beacon), `already commissioned as ${a.displayName}`);
+
+  return rows.map(({ line, fields }) => {
+    const cell = (field: ImportField) => (mapping[field] == null ? "" : String(fields[mapping[field] as number] ?? "").trim());
+    const issues: string[] = [];
+
+    const assetTag = cell("assetTag");
+    const assetType = cell("assetType");
+    const major = whole(cell("jobsiteMajor"));
+    const minor = whole(cell("minor"));
+
+    if (!assetTag) issues.push("Missing asset tag.");
+    if (!assetType) issues.push("Missing asset type.");
+    if (!cell("jobsiteMajor")) issues.push("Missing jobsite.");
+    else if (!jobsites.some((j) => j.major === major)) issues.push(`Unknown jobsite ${cell("jobsiteMajor")}.`);
+    if (!cell("minor")) issues.push("Missing beacon minor.");
+    else if (Number.isNaN(minor)) issues.push(`Minor ${cell("minor")} is not a whole number.`);
+    else if (minor < 0 || minor > 65535) issues.push(`Minor ${cell("minor")} is outside 0–65535.`);
+    // Beacons from another organisation's UUID are refused, as for stickers; an empty cell means ours.
+    const uuid = cell("uuid") ? canonicalUuid(cell("uuid")) : ORG_UUID;
+    if (!uuid) issues.push(`UUID ${cell("uuid")} is not a valid UUID.`);
+    else if (uuid !== ORG_UUID) issues.push(`UUID ${uuid} belongs to another organisation.`);
+    if (issues.length) return { line, status: "error", asset: null, issues };
+
+    const asset: NewAsset = {
+      displayName: cell("displayName") || `${assetType} – ${assetTag}`,
+      assetType,
+      assetTag,
+      jobsiteMajor: major,
+      locationHint: cell("locationHint"),
+      beacon: { uuid: ORG_UUID, major, minor },
+    };
+
+    const key = beaconKey(asset.beacon);
+    const clash = taken.get(key);
+    if (clash) return { line, status: "duplicate", asset, issues: [`Beacon ${major}/${minor} is ${clash}.`] };
+    taken.set(key, `already used on line ${line}`);
+    return { line, status: "ready", asset, issues: [] };
+  });
+}
+
+/** The rows to upload, rewritten with canonical headers so the server sees exactly what was previewed. */
+export function importFile(rows: ImportRow[]) {
+  const assets = rows.filter((r) => r.status === "ready" && r.asset).map((r) => r.asset as NewAsset);
+  const csv = toCsv([
+    ["displayName", "assetType", "assetTag", "jobsiteMajor", "minor", "uuid", "locationHint"],
+    ...assets.map((a) => [a.displayName, a.assetType, a.assetTag, a.jobsiteMajor, a.beacon.minor, a.beacon.uuid, a.locationHint]),
+  ]);
+  return new File([csv], "assets-import.csv", { type: "text/csv" });
+}
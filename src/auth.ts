@@ -0,0 +1,276 @@
+import type { Role, Technician } from "./types";
+import { OIDC_CLIENT_ID, loadActiveProfile, normalizeBaseUrl } from "./environments";
+import { roleFromClaims } from "./permissions";
+
+export type AuthSession = {
+  kind: "oidc" | "demo";
+  /** Issuer the tokens came from; empty for demo sessions. */
+  issuer: string;
+  accessToken: string | null;
+  refreshToken: string | null;
+  expiresAt: number | null;
+  technician: Technician;
+  /** From the token's role claims; null until the backend's /api/me has been asked. */
+  role: Role | null;
+};
+
+type Discovery = { authorization_endpoint: string; token_endpoint: string; end_session_endpoint?: string };
+
+type PendingSignIn = { issuer: string; verifier: string; state: string; redirectUri: string };
+
+const SESSION_KEY = "fs_toolbox_session";
+const PENDING_KEY = "fs_toolbox_pkce";
+const REFRESH_SKEW_MS = 60000;
+
+let issuer = normalizeBaseUrl(loadActiveProfile().issuer);
+let session: AuthSession | null = loadSession();
+// Role reported by /api/me when the backend does not require sign-in.
+let serverRole: Role | null = null;
+const listeners = new Set<() => void>();
+
+function loadSession(): AuthSession | null {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY);
+    const s = raw ? JSON.parse(raw) : null;
+    return s && typeof s.technician?.id === "string" ? ({ ...s, role: s.role ?? null } as AuthSession) : null;
+  } catch {
+    return null;
+  }
+}
+
+function setSession(next: AuthSession | null) {
+  session = next;
+  for (const fn of listeners) fn();
+  try {
+    if (next) localStorage.setItem(SESSION_KEY, JSON.stringify(next));
+    else localStorage.removeItem(SESSION_KEY);
+  } catch {
+    return;
+  }
+}
+
+export class AuthError extends Error {
+  /** The identity provider answered and refused; retrying with the same grant will not help. */
+  rejected: boolean;
+
+  constructor(message: string, rejected: boolean) {
+    super(message);
+    this.name = "AuthError";
+    this.rejected = rejected;
+  }
+}
+
+export function subscribeAuth(fn: () => void) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+/** Points sign-in at the active profile's issuer. Sessions from another issuer stop counting. */
+export function configureAuth(nextIssuer: string) {
+  const next = normalizeBaseUrl(nextIssuer);
+  if (next === issuer) return;
+  issuer = next;
+  serverRole = null;
+  for (const fn of listeners) fn();
+}
+
+export function authIssuer() {
+  return issuer;
+}
+
+export function currentSession(): AuthSession | null {
+  if (!session) return null;
+  if (session.kind === "oidc" && session.issuer !== issuer) return null;
+  return session;
+}
+
+export function currentTechnician(): Technician | null {
+  return currentSession()?.technician ?? null;
+}
+
+/** Effective role for permission checks. Unknown roles get the least privilege. */
+export function currentRole(): Role {
+  return currentSession()?.role ?? serverRole ?? "technician";
+}
+
+/** Records the role the backend's /api/me reported, on the session when there is one. */
+export function setServerRole(role: Role | null) {
+  const s = currentSession();
+  if (s) {
+    if (s.role !== role) setSession({ ...s, role });
+    return;
+  }
+  if (serverRole === role) return;
+  serverRole = role;
+  for (const fn of listeners) fn();
+}
+
+function base64Url(bytes: Uint8Array) {
+  let s = "";
+  for (const b of bytes) s += String.fromCharCode(b);
+  return btoa(s).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function randomToken(bytes = 32) {
+  const buf = new Uint8Array(bytes);
+  crypto.getRandomValues(buf);
+  return base64Url(buf);
+}
+
+async function pkceChallenge(verifier: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return base64Url(new Uint8Array(digest));
+}
+
+export function decodeJwtClaims(token: string | null | undefined): Record<string, any> | null {
+  const part = token?.split(".")[1];
+  if (!part) return null;
+  try {
+    const bin = atob(part.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(part.length / 4) * 4, "="));
+    return JSON.parse(new TextDecoder().decode(Uint8Array.from(bin, (c) => c.charCodeAt(0))));
+  } catch {
+    return null;
+  }
+}
+
+const discoveryCache = new Map<string, Promise<Discovery>>();
+
+function discover(iss: string): Promise<Discovery> {
+  let p = discoveryCache.get(iss);
+  if (!p) {
+    p = fetch(`${iss}/.well-known/openid-configuration`).then(async (r) => {
+      const j = await r.json().catch(() => null);
+      if (!r.ok || typeof j?.authorization_endpoint !== "string" || typeof j?.token_endpoint !== "string") throw new Error("The sign-in server did not return a usable configuration.");
+      return j as Discovery;
+    });
+    p.catch(() => discoveryCache.delete(iss));
+    discoveryCache.set(iss, p);
+  }
+  return p;
+}
+
+function redirectUri() {
+  return `${window.location.origin}${window.location.pathname}`;
+}
+
+export async function beginSignIn() {
+  if (!issuer) throw new Error("Sign-in is not configured for this backend.");
+  if (!crypto?.subtle) throw new Error("Sign-in needs a secure (https) connection.");
+
+  let d: Discovery;
+  try {
+    d = await discover(issuer);
+  } catch (e: any) {
+    throw new Error(e instanceof TypeError ? "Could not reach the sign-in server." : String(e?.message || e));
+  }
+
+  const pending: PendingSignIn = { issuer, verifier: randomToken(48), state: randomToken(16), redirectUri: redirectUri() };
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+
+  const url = new URL(d.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: OIDC_CLIENT_ID,
+    redirect_uri: pending.redirectUri,
+    scope: "openid profile email offline_access",
+    state: pending.state,
+    code_challenge: await pkceChallenge(pending.verifier),
+    code_challenge_method: "S256",
+  }).toString();
+  window.location.assign(url.toString());
+}
+
+async function tokenRequest(iss: string, body: Record<string, string>) {
+  const d = await discover(iss);
+  const r = await fetch(d.token_endpoint, {
+    method: "POST",
+    headers: { "content-type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ client_id: OIDC_CLIENT_ID, ...body }).toString(),
+  });
+  const j = await r.json().catch(() => null);
+  if (!r.ok || typeof j?.access_token !== "string") {
+    throw new AuthError(j?.error_description || j?.error || `Sign-in failed (HTTP ${r.status}).`, r.status >= 400 && r.status < 500);
+  }
+  return j as { access_token: string; refresh_token?: string; id_token?: string; expires_in?: number };
+}
+
+function sessionFromTokens(iss: string, t: { access_token: string; refresh_token?: string; id_token?: string; expires_in?: number }, prev?: AuthSession | null): AuthSession {
+  const accessClaims = decodeJwtClaims(t.access_token);
+  const claims = decodeJwtClaims(t.id_token) ?? accessClaims ?? {};
+  const technician: Technician = claims.sub
+    ? { id: String(claims.sub), name: String(claims.name || claims.preferred_username || claims.email || claims.sub), email: typeof claims.email === "string" ? claims.email : undefined }
+    : prev?.technician ?? { id: "unknown", name: "Unknown technician" };
+  return {
+    kind: "oidc",
+    issuer: iss,
+    accessToken: t.access_token,
+    refreshToken: t.refresh_token ?? prev?.refreshToken ?? null,
+    expiresAt: t.expires_in ? Date.now() + t.expires_in * 1000 : null,
+    technician,
+    role: roleFromClaims(accessClaims) ?? roleFromClaims(claims) ?? prev?.role ?? null,
+  };
+}
+
+/** Finishes a redirect back from the identity provider. Returns true when the URL carried a sign-in response. */
+export async function completeSignInFromUrl(): Promise<boolean> {
+  const params = new URLSearchParams(window.location.search);
+  const code = params.get("code");
+  const error = params.get("error");
+  if (!code && !error) return false;
+
+  const raw = sessionStorage.getItem(PENDING_KEY);
+  sessionStorage.removeItem(PENDING_KEY);
+  window.history.replaceState(null, "", `${window.location.pathname}${window.location.hash}`);
+
+  if (error) throw new Error(params.get("error_description") || `Sign-in was cancelled (${error}).`);
+
+  const pending: PendingSignIn | null = raw ? JSON.parse(raw) : null;
+  if (!pending || pending.state !== params.get("state")) throw new Error("Sign-in response did not match this device. Try again.");
+
+  const t = await tokenRequest(pending.issuer, { grant_type: "authorization_code", code: code as string, redirect_uri: pending.redirectUri, code_verifier: pending.verifier });
+  setSession(sessionFromTokens(pending.issuer, t));
+  return true;
+}
+
+let refreshing: Promise<string | null> | null = null;
+
+/** Exchanges the refresh token. A rejected refresh signs out; a network failure keeps the session for offline use. */
+export function refreshSession(): Promise<string | null> {
+  if (refreshing) return refreshing;
+  const s = currentSession();
+  if (!s || s.kind !== "oidc" || !s.refreshToken) return Promise.resolve(s?.accessToken ?? null);
+
+  refreshing = tokenRequest(s.issuer, { grant_type: "refresh_token", refresh_token: s.refreshToken })
+    .then((t) => {
+      const next = sessionFromTokens(s.issuer, t, s);
+      setSession(next);
+      return next.accessToken;
+    })
+    .catch((e) => {
+      if (e instanceof AuthError && e.rejected) setSession(null);
+      return null;
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+}
+
+export async function getAccessToken(): Promise<string | null> {
+  const s = currentSession();
+  if (!s || s.kind !== "oidc") return null;
+  if (s.expiresAt != null && s.expiresAt - REFRESH_SKEW_MS <= Date.now() && s.refreshToken) return (await refreshSession()) ?? s.accessToken;
+  return s.accessToken;
+}
+
+export function signInDemo(name: string, role: Role = "technician") {
+  const n = name.trim() || "Demo technician";
+  setSession({ kind: "demo", issuer: "", accessToken: null, refreshToken: null, expiresAt: null, technician: { id: `demo:${n.toLowerCase().replace(/\s+/g, "-")}`, name: n }, role });
+}
+
+export function signOut() {
+  serverRole = null;
+  setSession(null);
+}
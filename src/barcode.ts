@@ -0,0 +1,175 @@
+import { useEffect, useRef, useState } from "react";
+
+// Loaded on demand for browsers without BarcodeDetector (notably iOS Safari).
+const ZXING_URL = "https://cdn.jsdelivr.net/npm/@zxing/browser@0.1.5/+esm";
+
+const SCAN_INTERVAL_MS = 220;
+// The same code seen again within this window is the same scan, not a second one.
+const REPEAT_MS = 900;
+
+export type BarcodeFormat = "code_128" | "code_39" | "ean_13" | "ean_8" | "upc_a" | "upc_e" | "qr_code" | "pdf417" | "data_matrix";
+
+export const ALL_BARCODE_FORMATS: BarcodeFormat[] = ["code_128", "code_39", "ean_13", "ean_8", "upc_a", "upc_e", "qr_code", "pdf417", "data_matrix"];
+
+/** `single` reports one code and then stops the camera; `continuous` keeps reporting new codes until closed. */
+export type ScanMode = "single" | "continuous";
+
+export type BarcodeScannerOptions = {
+  /** Camera runs while this is true. */
+  active: boolean;
+  formats?: BarcodeFormat[];
+  mode?: ScanMode;
+  onResult: (text: string) => void;
+};
+
+type DetectorCtor = (new (opts?: { formats: string[] }) => { detect: (image: any) => Promise<any[]> }) & { getSupportedFormats?: () => Promise<string[]> };
+
+async function createDetector(formats: BarcodeFormat[]) {
+  const Detector: DetectorCtor | undefined = (window as any).BarcodeDetector;
+  if (!Detector) return null;
+  let supported: string[] | null = null;
+  try {
+    supported = (await Detector.getSupportedFormats?.()) ?? null;
+  } catch {
+    supported = null;
+  }
+  const usable = supported ? formats.filter((f) => supported!.includes(f)) : formats;
+  return usable.length ? new Detector({ formats: usable }) : new Detector();
+}
+
+function lockPortrait(lock: boolean) {
+  const orientation: any = (screen as any)?.orientation;
+  try {
+    if (lock) orientation?.lock?.("portrait")?.catch?.(() => undefined);
+    else orientation?.unlock?.();
+  } catch {
+    return;
+  }
+}
+
+/**
+ * Live camera scanning into `videoRef`, with BarcodeDetector where the browser has it and ZXing otherwise.
+ * Repeated reads of the code still in view are dropped, so `onResult` fires once per scan.
+ */
+export function useBarcodeScanner({ active, formats = ALL_BARCODE_FORMATS, mode = "continuous", onResult }: BarcodeScannerOptions) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+  // Callers tend to pass a fresh array each render; restart the camera only when the formats actually change.
+  const formatsKey = formats.join(",");
+
+  useEffect(() => {
+    if (!active) return;
+
+    let stopped = false;
+    let stream: MediaStream | null = null;
+    let interval: number | null = null;
+    let zxingControls: any = null;
+    let last = { text: "", ts: 0 };
+
+    const stop = () => {
+      stopped = true;
+      if (interval) window.clearInterval(interval);
+      interval = null;
+      try {
+        zxingControls?.stop?.();
+      } catch {
+        // Already stopped.
+      }
+      zxingControls = null;
+      for (const track of stream?.getTracks() ?? []) track.stop();
+      stream = null;
+      const video = videoRef.current;
+      if (video) {
+        video.pause();
+        video.srcObject = null;
+      }
+    };
+
+    const report = (raw: string) => {
+      const text = String(raw || "").trim();
+      if (stopped || !text) return;
+      const now = Date.now();
+      if (text === last.text && now - last.ts < REPEAT_MS) return;
+      last = { text, ts: now };
+      if (mode === "single") stop();
+      onResultRef.current(text);
+    };
+
+    (async () => {
+      setError(null);
+      lockPortrait(true);
+
+      const video = videoRef.current;
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setError("Camera is not available in this environment.");
+        return;
+      }
+      if (!video) {
+        setError("Camera view failed to initialize.");
+        return;
+      }
+
+      try {
+        const s = await navigator.mediaDevices.getUserMedia({ video: { facingMode: { ideal: "environment" } }, audio: false });
+        if (stopped) {
+          for (const track of s.getTracks()) track.stop();
+          return;
+        }
+        stream = s;
+        video.srcObject = s;
+        await video.play();
+      } catch (e: any) {
+        if (!stopped) setError(e?.message || "Unable to access camera.");
+        return;
+      }
+
+      let detector: Awaited<ReturnType<typeof createDetector>> = null;
+      try {
+        detector = await createDetector(formats);
+      } catch {
+        detector = null;
+      }
+      if (stopped) return;
+
+      if (detector) {
+        let inFlight = false;
+        interval = window.setInterval(async () => {
+          if (inFlight || video.readyState < 2 || !video.videoWidth) return;
+          inFlight = true;
+          try {
+            const found = await detector!.detect(video);
+            const raw = found?.[0]?.rawValue ?? found?.[0]?.value;
+            if (raw) report(String(raw));
+          } catch {
+            return;
+          } finally {
+            inFlight = false;
+          }
+        }, SCAN_INTERVAL_MS);
+        return;
+      }
+
+      try {
+        const mod: any = await import(/* @vite-ignore */ ZXING_URL);
+        if (!mod?.BrowserMultiFormatReader) throw new Error("ZXing load failed");
+        const controls = await new mod.BrowserMultiFormatReader().decodeFromVideoElement(video, (result: any) => {
+          const text = result?.getText ? result.getText() : result?.text;
+          if (text) report(String(text));
+        });
+        if (stopped) controls?.stop?.();
+        else zxingControls = controls;
+      } catch {
+        if (!stopped) setError("Live barcode scanning is not supported on this browser. Type the value instead.");
+      }
+    })();
+
+    return () => {
+      stop();
+      lockPortrait(false);
+    };
+  }, [active, mode, formatsKey]);
+
+  return { videoRef, error };
+}
@@ -0,0 +1,54 @@
+import { clamp } from "../math";
+
+export type GeigerEngine = {
+  resume(): Promise<void>;
+  click(frequency: number, durationMs?: number): void;
+  close(): void;
+};
+
+export function createGeigerEngine(): GeigerEngine | null {
+  const win: any = typeof window === "undefined" ? null : (window as any);
+  const Ctx = win?.AudioContext || win?.webkitAudioContext;
+  if (!Ctx) return null;
+
+  const ctx: AudioContext = new Ctx();
+
+  return {
+    async resume() {
+      if (ctx.state === "suspended") await ctx.resume();
+    },
+    click(frequency, durationMs = 45) {
+      if (ctx.state !== "running") return;
+      const t0 = ctx.currentTime;
+      const t1 = t0 + durationMs / 1000;
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.type = "square";
+      osc.frequency.setValueAtTime(frequency, t0);
+      gain.gain.setValueAtTime(0.0001, t0);
+      gain.gain.exponentialRampToValueAtTime(0.25, t0 + 0.005);
+      gain.gain.exponentialRampToValueAtTime(0.0001, t1);
+      osc.connect(gain).connect(ctx.destination);
+      osc.start(t0);
+      osc.stop(t1 + 0.01);
+    },
+    close() {
+      ctx.close().catch(() => undefined);
+    },
+  };
+}
+
+export function geigerCadence(meters: number) {
+  return {
+    intervalMs: clamp(120 + meters * 55, 120, 1500),
+    frequency: clamp(1500 - meters * 45, 450, 1500),
+  };
+}
+
+export function vibrate(pattern: number | number[]) {
+  try {
+    if (typeof navigator !== "undefined" && typeof navigator.vibrate === "function") navigator.vibrate(pattern);
+  } catch {
+    return;
+  }
+}
@@ -0,0 +1,149 @@
+import type { KalmanState, RangeState } from "../types";
+import { clamp, mad, median } from "../math";
+
+export type RangeFilterKind = "median_ema" | "kalman";
+
+export type RangeSample = { meters: number; rssi: number; ts: number };
+
+export interface RangeFilter {
+  kind: RangeFilterKind;
+  label: string;
+  update(prev: RangeState | undefined, sample: RangeSample): RangeState;
+}
+
+export const RANGE_FILTER_KINDS: RangeFilterKind[] = ["median_ema", "kalman"];
+
+const WINDOW = 18;
+const MAD_TO_SIGMA = 1.4826;
+
+export function emptyRangeState(): RangeState {
+  return {
+    samples: [],
+    lastSeenMs: 0,
+    emaMeters: null,
+    madMeters: null,
+    deltaMeters: null,
+    lastEmaMeters: null,
+    lastRssi: null,
+    variance: null,
+  };
+}
+
+export function createMedianEmaFilter({ alpha = 0.25, window = WINDOW }: { alpha?: number; window?: number } = {}): RangeFilter {
+  return {
+    kind: "median_ema",
+    label: "Median + EMA",
+    update(prev, { meters, rssi, ts }) {
+      const curr = prev || emptyRangeState();
+      const samples = [...curr.samples, meters].slice(-window);
+      const med = median(samples) ?? meters;
+      const ema = curr.emaMeters == null ? med : alpha * med + (1 - alpha) * curr.emaMeters;
+      const m = mad(samples);
+      const delta = curr.lastEmaMeters == null ? null : ema - curr.lastEmaMeters;
+      const sigma = m == null ? null : MAD_TO_SIGMA * m;
+
+      return {
+        ...curr,
+        samples,
+        lastSeenMs: ts,
+        lastRssi: rssi,
+        lastEmaMeters: ema,
+        emaMeters: ema,
+        madMeters: m,
+        deltaMeters: delta,
+        variance: sigma == null ? null : sigma * sigma,
+        kalman: undefined,
+      };
+    },
+  };
+}
+
+function successiveNoiseVariance(samples: number[]) {
+  if (samples.length < 5) return null;
+  const diffs: number[] = [];
+  for (let i = 1; i < samples.length; i++) diffs.push(Math.abs(samples[i] - samples[i - 1]));
+  const m = median(diffs);
+  if (m == null) return null;
+  const sigma = (MAD_TO_SIGMA * m) / Math.SQRT2;
+  return sigma * sigma;
+}
+
+export function createKalmanFilter({
+  accelNoise = 0.6,
+  baseNoiseMeters = 0.2,
+  relativeNoise = 0.3,
+  resetAfterMs = 10000,
+  window = WINDOW,
+}: {
+  accelNoise?: number;
+  baseNoiseMeters?: number;
+  relativeNoise?: number;
+  resetAfterMs?: number;
+  window?: number;
+} = {}): RangeFilter {
+  const measurementVariance = (z: number, samples: number[]) => {
+    const observed = successiveNoiseVariance(samples);
+    if (observed != null) return Math.max(0.01, observed);
+    const sd = baseNoiseMeters + relativeNoise * z;
+    return sd * sd;
+  };
+
+  return {
+    kind: "kalman",
+    label: "Kalman",
+    update(prev, { meters, rssi, ts }) {
+      const curr = prev || emptyRangeState();
+      const samples = [...curr.samples, meters].slice(-window);
+      const r = measurementVariance(meters, samples);
+      const k = curr.kalman;
+
+      let next: KalmanState;
+      if (!k || ts - k.ts > resetAfterMs || ts < k.ts) {
+        next = { meters, velocity: 0, p00: r, p01: 0, p11: 1, ts };
+      } else {
+        const dt = clamp((ts - k.ts) / 1000, 0.05, 5);
+        const q = accelNoise;
+
+        const d = k.meters + k.velocity * dt;
+        const v = k.velocity;
+        const p00 = k.p00 + 2 * dt * k.p01 + dt * dt * k.p11 + (q * dt * dt * dt) / 3;
+        const p01 = k.p01 + dt * k.p11 + (q * dt * dt) / 2;
+        const p11 = k.p11 + q * dt;
+
+        const s = p00 + r;
+        const k0 = p00 / s;
+        const k1 = p01 / s;
+        const y = meters - d;
+
+        next = {
+          meters: Math.max(0, d + k0 * y),
+          velocity: v + k1 * y,
+          p00: (1 - k0) * p00,
+          p01: (1 - k0) * p01,
+          p11: p11 - k1 * p01,
+          ts,
+        };
+      }
+
+      const delta = curr.lastEmaMeters == null ? null : next.meters - curr.lastEmaMeters;
+
+      return {
+        ...curr,
+        samples,
+        lastSeenMs: ts,
+        lastRssi: rssi,
+        lastEmaMeters: next.meters,
+        emaMeters: next.meters,
+        madMeters: mad(samples),
+        deltaMeters: delta,
+        variance: next.p00,
+        kalman: next,
+      };
+    },
+  };
+}
+
+export const RANGE_FILTERS: Record<RangeFilterKind, RangeFilter> = {
+  median_ema: createMedianEmaFilter(),
+  kalman: createKalmanFilter(),
+};
@@ -0,0 +1,62 @@
+import type { Beacon } from "../types";
+
+export const APPLE_COMPANY_ID = 0x004c;
+
+const IBEACON_TYPE = 0x02;
+const IBEACON_LENGTH = 0x15;
+
+export type IBeaconAdvertisement = { beacon: Beacon; measuredPower: number };
+
+export type EnvironmentPreset = { id: string; label: string; factor: number };
+
+export const ENVIRONMENT_PRESETS: EnvironmentPreset[] = [
+  { id: "open", label: "Open yard", factor: 2.0 },
+  { id: "office", label: "Office", factor: 2.5 },
+  { id: "industrial", label: "Mech room", factor: 3.2 },
+];
+
+export const DEFAULT_ENVIRONMENT_FACTOR = 2.5;
+
+function toBytes(data: DataView | Uint8Array | ArrayBuffer) {
+  if (data instanceof Uint8Array) return data;
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+}
+
+function formatUuid(bytes: Uint8Array) {
+  let hex = "";
+  for (const b of bytes) hex += b.toString(16).padStart(2, "0");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`.toUpperCase();
+}
+
+export function parseIBeacon(data: DataView | Uint8Array | ArrayBuffer | null | undefined, { includesCompanyId = false }: { includesCompanyId?: boolean } = {}): IBeaconAdvertisement | null {
+  if (!data) return null;
+  let bytes = toBytes(data);
+
+  if (includesCompanyId) {
+    if (bytes.length < 2) return null;
+    const companyId = bytes[0] | (bytes[1] << 8);
+    if (companyId !== APPLE_COMPANY_ID) return null;
+    bytes = bytes.subarray(2);
+  }
+
+  if (bytes.length < 23) return null;
+  if (bytes[0] !== IBEACON_TYPE || bytes[1] !== IBEACON_LENGTH) return null;
+
+  const uuid = formatUuid(bytes.subarray(2, 18));
+  const major = (bytes[18] << 8) | bytes[19];
+  const minor = (bytes[20] << 8) | bytes[21];
+  const measuredPower = bytes[22] > 127 ? bytes[22] - 256 : bytes[22];
+
+  return { beacon: { uuid, major, minor }, measuredPower };
+}
+
+export function rssiToMeters(rssi: number, measuredPower: number, environmentFactor = DEFAULT_ENVIRONMENT_FACTOR) {
+  if (!Number.isFinite(rssi) || !Number.isFinite(measuredPower) || rssi >= 0) return null;
+  const n = environmentFactor > 0 ? environmentFactor : DEFAULT_ENVIRONMENT_FACTOR;
+  return Math.pow(10, (measuredPower - rssi) / (10 * n));
+}
+
+export function metersToRssi(meters: number, measuredPower: number, environmentFactor = DEFAULT_ENVIRONMENT_FACTOR) {
+  return measuredPower - 10 * environmentFactor * Math.log10(Math.max(meters, 0.01));
+}
@@ -0,0 +1,13 @@
+import type { Beacon } from "../types";
+
+export function beaconKey(b: Beacon) {
+  return `${b.uuid}|${b.major}|${b.minor}`;
+}
+
+const UUID_RE = /^([0-9a-f]{8})-?([0-9a-f]{4})-?([0-9a-f]{4})-?([0-9a-f]{4})-?([0-9a-f]{12})$/i;
+
+/** Upper-case dashed form of a UUID written with or without dashes; null when the text is not a UUID. */
+export function canonicalUuid(s: string) {
+  const m = UUID_RE.exec(s.trim());
+  return m ? m.slice(1).join("-").toUpperCase() : null;
+}
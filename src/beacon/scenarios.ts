@@ -0,0 +1,129 @@
+export type ScenarioTarget = "target" | "others" | "all";
+
+export type ScenarioEffect =
+  | { kind: "walk"; target: ScenarioTarget; path: number[] }
+  | { kind: "dropout"; target: ScenarioTarget }
+  | { kind: "occlusion"; target: ScenarioTarget; attenuationDb: number }
+  | { kind: "packet_loss"; target: ScenarioTarget; rate: number }
+  | { kind: "jitter"; target: ScenarioTarget; meters: number };
+
+export type ScenarioPhase = { label: string; durationMs: number; effects: ScenarioEffect[] };
+
+export type Scenario = { id: string; label: string; description: string; loop: boolean; phases: ScenarioPhase[] };
+
+export type ScenarioStatus = { scenario: Scenario; phase: ScenarioPhase; phaseIndex: number; phaseElapsedMs: number; finished: boolean };
+
+export const SCENARIOS: Scenario[] = [
+  {
+    id: "approach",
+    label: "Walk up to asset",
+    description: "The target starts across the site and the technician walks up to it, then waits.",
+    loop: true,
+    phases: [
+      { label: "Walking toward", durationMs: 40000, effects: [{ kind: "walk", target: "target", path: [30, 2] }] },
+      { label: "Arrived", durationMs: 10000, effects: [{ kind: "walk", target: "target", path: [2, 2] }] },
+    ],
+  },
+  {
+    id: "walk_away",
+    label: "Walk away",
+    description: "The technician walks away from the target. Shows “Getting farther”.",
+    loop: true,
+    phases: [
+      { label: "Standing close", durationMs: 8000, effects: [{ kind: "walk", target: "target", path: [3, 3] }] },
+      { label: "Walking away", durationMs: 30000, effects: [{ kind: "walk", target: "target", path: [3, 25] }] },
+    ],
+  },
+  {
+    id: "site_walk",
+    label: "Site walk",
+    description: "A walking path that passes the target several times at different distances.",
+    loop: true,
+    phases: [{ label: "Walking the route", durationMs: 60000, effects: [{ kind: "walk", target: "target", path: [25, 12, 18, 4, 10, 25] }] }],
+  },
+  {
+    id: "dropout",
+    label: "Beacon drops out",
+    description: "The target goes silent for 15 seconds and then comes back. Shows “Out of range”.",
+    loop: true,
+    phases: [
+      { label: "Visible", durationMs: 10000, effects: [{ kind: "walk", target: "target", path: [8, 8] }] },
+      { label: "Dropped out", durationMs: 15000, effects: [{ kind: "dropout", target: "target" }] },
+      { label: "Back in range", durationMs: 15000, effects: [{ kind: "walk", target: "target", path: [8, 8] }] },
+    ],
+  },
+  {
+    id: "occlusion",
+    label: "Body occlusion",
+    description: "The technician turns their back to the target, adding 12 dB of attenuation.",
+    loop: true,
+    phases: [
+      { label: "Clear line of sight", durationMs: 10000, effects: [{ kind: "walk", target: "target", path: [6, 6] }] },
+      {
+        label: "Occluded",
+        durationMs: 15000,
+        effects: [
+          { kind: "walk", target: "target", path: [6, 6] },
+          { kind: "occlusion", target: "target", attenuationDb: 12 },
+        ],
+      },
+    ],
+  },
+  {
+    id: "unstable",
+    label: "Noisy signal",
+    description: "Heavy multipath around the target. Shows “Unstable”.",
+    loop: true,
+    phases: [
+      {
+        label: "Multipath",
+        durationMs: 30000,
+        effects: [
+          { kind: "walk", target: "target", path: [10, 10] },
+          { kind: "jitter", target: "target", meters: 4 },
+        ],
+      },
+    ],
+  },
+  {
+    id: "packet_loss",
+    label: "Packet-loss bursts",
+    description: "Every beacon loses most packets in short bursts.",
+    loop: true,
+    phases: [
+      { label: "Normal", durationMs: 10000, effects: [] },
+      { label: "Loss burst", durationMs: 8000, effects: [{ kind: "packet_loss", target: "all", rate: 0.85 }] },
+    ],
+  },
+];
+
+export function findScenario(id: string | null) {
+  return SCENARIOS.find((s) => s.id === id) ?? null;
+}
+
+export function scenarioStatusAt(scenario: Scenario, elapsedMs: number): ScenarioStatus {
+  const total = scenario.phases.reduce((sum, p) => sum + p.durationMs, 0);
+  const finished = !scenario.loop && elapsedMs >= total;
+  let t = finished ? total - 1 : total > 0 ? elapsedMs % total : 0;
+
+  for (let i = 0; i < scenario.phases.length; i++) {
+    const phase = scenario.phases[i];
+    if (t < phase.durationMs) return { scenario, phase, phaseIndex: i, phaseElapsedMs: t, finished };
+    t -= phase.durationMs;
+  }
+
+  const last = scenario.phases.length - 1;
+  return { scenario, phase: scenario.phases[last], phaseIndex: last, phaseElapsedMs: scenario.phases[last].durationMs, finished };
+}
+
+export function effectsFor(status: ScenarioStatus, isTarget: boolean) {
+  return status.phase.effects.filter((e) => e.target === "all" || (e.target === "target") === isTarget);
+}
+
+export function walkMeters(path: number[], progress: number) {
+  if (!path.length) return null;
+  if (path.length === 1) return path[0];
+  const p = Math.min(1, Math.max(0, progress)) * (path.length - 1);
+  const i = Math.min(path.length - 2, Math.floor(p));
+  return path[i] + (path[i + 1] - path[i]) * (p - i);
+}
@@ -0,0 +1,76 @@
+import type { Geo } from "../types";
+import { api, type ApiClient } from "../api";
+
+export type Sighting = {
+  beaconKey: string;
+  lat: number;
+  lon: number;
+  accuracy: number;
+  rssi: number;
+  meters: number;
+  ts: number;
+};
+
+export type GeoFix = Geo & { accuracy: number; ts: number };
+
+const STORAGE_KEY = "fs_toolbox_sightings";
+const MAX_PER_BEACON = 20;
+const MAX_AGE_MS = 7 * 24 * 3600 * 1000;
+const MIN_INTERVAL_MS = 15000;
+const MAX_FIX_AGE_MS = 10000;
+const MAX_FIX_ACCURACY_M = 100;
+const MAX_RANGE_M = 15;
+
+export function loadSightings(): Record<string, Sighting[]> {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveSightings(all: Record<string, Sighting[]>) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch {
+    return;
+  }
+}
+
+export function sightingFor(fix: GeoFix | null, obs: { key: string; rssi: number; meters: number; ts: number }, last: Sighting | undefined): Sighting | null {
+  if (!fix) return null;
+  if (obs.ts - fix.ts > MAX_FIX_AGE_MS || fix.accuracy > MAX_FIX_ACCURACY_M) return null;
+  if (!(obs.meters <= MAX_RANGE_M)) return null;
+  if (last && obs.ts - last.ts < MIN_INTERVAL_MS) return null;
+  return { beaconKey: obs.key, lat: fix.lat, lon: fix.lon, accuracy: fix.accuracy, rssi: obs.rssi, meters: obs.meters, ts: obs.ts };
+}
+
+export function addSighting(all: Record<string, Sighting[]>, s: Sighting, now = Date.now()) {
+  const list = [s, ...(all[s.beaconKey] || [])].filter((x) => now - x.ts <= MAX_AGE_MS).slice(0, MAX_PER_BEACON);
+  return { ...all, [s.beaconKey]: list };
+}
+
+export function sightingUncertainty(s: Sighting, now = Date.now()) {
+  const ageMinutes = Math.max(0, now - s.ts) / 60000;
+  return s.accuracy + s.meters + Math.min(ageMinutes, 120) * 0.5;
+}
+
+export function bestSighting(list: Sighting[] | undefined, now = Date.now()): Sighting | null {
+  if (!list?.length) return null;
+  let best: Sighting | null = null;
+  let bestScore = Infinity;
+  for (const s of list) {
+    const score = sightingUncertainty(s, now);
+    if (score < bestScore) {
+      best = s;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export async function postSighting(s: Sighting, client: ApiClient = api) {
+  await client.request("/api/sightings", { method: "POST", json: s });
+}
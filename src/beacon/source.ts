@@ -0,0 +1,237 @@
+import type { Anchor, Asset } from "../types";
+import { clamp } from "../math";
+import { APPLE_COMPANY_ID, metersToRssi, parseIBeacon, rssiToMeters } from "./ibeacon";
+import { beaconKey } from "./key";
+import { effectsFor, scenarioStatusAt, walkMeters, type Scenario, type ScenarioStatus } from "./scenarios";
+
+export type BeaconSourceKind = "simulator" | "web_bluetooth" | "replay";
+
+export type BeaconObservation = { key: string; meters: number; rssi: number; ts: number };
+
+export type BeaconSourceCapabilities = {
+  supported: boolean;
+  reason?: string;
+  realRadio: boolean;
+  steerable: boolean;
+};
+
+export type ObservationHandler = (obs: BeaconObservation) => void;
+
+export type SourceErrorHandler = (message: string) => void;
+
+export type SourceEndedHandler = () => void;
+
+export interface BeaconSource {
+  kind: BeaconSourceKind;
+  label: string;
+  shortLabel: string;
+  capabilities(): BeaconSourceCapabilities;
+  start(onObservation: ObservationHandler, onError: SourceErrorHandler, onEnded?: SourceEndedHandler): void | Promise<void>;
+  stop(): void;
+  /** The clock observations are stamped with, for freshness checks. Live sources leave it out and use the wall clock. */
+  now?(): number;
+}
+
+export const BEACON_SOURCE_KINDS: BeaconSourceKind[] = ["simulator", "web_bluetooth", "replay"];
+
+const SIM_MEASURED_POWER = -45;
+const SIM_ENVIRONMENT_FACTOR = 1.8;
+
+export type SimulatorSource = BeaconSource & {
+  scenarioStatus(): ScenarioStatus | null;
+  restartScenario(): void;
+};
+
+export function createSimulatorSource({
+  getAssets,
+  getTargetKey,
+  getScenario = () => null,
+  getAnchors = () => [],
+  intervalMs = 650,
+}: {
+  getAssets: () => Asset[];
+  getTargetKey: () => string | null;
+  getScenario?: () => Scenario | null;
+  getAnchors?: () => Anchor[];
+  intervalMs?: number;
+}): SimulatorSource {
+  const state: Record<string, { meters: number }> = {};
+  let position: { x: number; y: number } | null = null;
+  let timer: number | null = null;
+  let scenarioId: string | null = null;
+  let scenarioStartedMs = 0;
+
+  const currentStatus = () => {
+    const scenario = getScenario();
+    if (!scenario) {
+      scenarioId = null;
+      return null;
+    }
+    if (scenario.id !== scenarioId) {
+      scenarioId = scenario.id;
+      scenarioStartedMs = Date.now();
+    }
+    return scenarioStatusAt(scenario, Date.now() - scenarioStartedMs);
+  };
+
+  const tick = (onObservation: ObservationHandler) => {
+    const assets = getAssets();
+    const status = currentStatus();
+    const targetKey = getTargetKey() ?? (status && assets.length ? beaconKey(assets[0].beacon) : null);
+
+    for (const a of assets) {
+      const k = beaconKey(a.beacon);
+      const st = (state[k] ||= { meters: 6 + Math.random() * 25 });
+      const effects = status ? effectsFor(status, targetKey === k) : [];
+
+      let jitter = 0;
+      let attenuationDb = 0;
+      let silent = false;
+      let walked = false;
+
+      for (const e of effects) {
+        if (e.kind === "walk") {
+          const m = walkMeters(e.path, status!.phaseElapsedMs / status!.phase.durationMs);
+          if (m != null) {
+            st.meters = m;
+            walked = true;
+          }
+        } else if (e.kind === "dropout") {
+          silent = true;
+        } else if (e.kind === "packet_loss") {
+          if (Math.random() < e.rate) silent = true;
+        } else if (e.kind === "occlusion") {
+          attenuationDb += e.attenuationDb;
+        } else if (e.kind === "jitter") {
+          jitter += e.meters;
+        }
+      }
+
+      if (walked) {
+        jitter += 0.6;
+      } else {
+        const drift = !status && targetKey === k ? -0.35 : 0.05;
+        st.meters = clamp(st.meters + drift + (Math.random() - 0.5) * 0.6, 0.8, 35);
+      }
+      if (silent) continue;
+
+      const trueMeters = jitter > 0 ? clamp(st.meters + (Math.random() - 0.5) * jitter, 0.3, 60) : st.meters;
+      const rssi = Math.round(metersToRssi(trueMeters, SIM_MEASURED_POWER, SIM_ENVIRONMENT_FACTOR) - attenuationDb + (Math.random() - 0.5) * 10);
+      const meters = attenuationDb > 0 ? rssiToMeters(rssi, SIM_MEASURED_POWER, SIM_ENVIRONMENT_FACTOR) ?? trueMeters : trueMeters;
+      onObservation({ key: k, meters, rssi, ts: Date.now() });
+    }
+
+    const anchors = getAnchors();
+    if (!anchors.length) {
+      position = null;
+      return;
+    }
+
+    const xs = anchors.map((a) => a.x);
+    const ys = anchors.map((a) => a.y);
+    position ||= { x: xs.reduce((a, b) => a + b, 0) / xs.length, y: ys.reduce((a, b) => a + b, 0) / ys.length };
+    position.x = clamp(position.x + (Math.random() - 0.5) * 0.8, Math.min(...xs) - 5, Math.max(...xs) + 5);
+    position.y = clamp(position.y + (Math.random() - 0.5) * 0.8, Math.min(...ys) - 5, Math.max(...ys) + 5);
+
+    for (const anchor of anchors) {
+      const d = Math.hypot(position.x - anchor.x, position.y - anchor.y);
+      const meters = clamp(d + (Math.random() - 0.5) * 0.6, 0.3, 60);
+      const rssi = Math.round(metersToRssi(meters, SIM_MEASURED_POWER, SIM_ENVIRONMENT_FACTOR) + (Math.random() - 0.5) * 10);
+      onObservation({ key: beaconKey(anchor.beacon), meters, rssi, ts: Date.now() });
+    }
+  };
+
+  return {
+    kind: "simulator",
+    label: "Simulator",
+    shortLabel: "Sim",
+    capabilities() {
+      return { supported: true, realRadio: false, steerable: true };
+    },
+    start(onObservation) {
+      if (timer != null) return;
+      timer = window.setInterval(() => tick(onObservation), intervalMs) as any;
+    },
+    stop() {
+      if (timer != null) window.clearInterval(timer);
+      timer = null;
+    },
+    scenarioStatus: currentStatus,
+    restartScenario() {
+      scenarioStartedMs = Date.now();
+    },
+  };
+}
+
+function bluetooth(): any {
+  return typeof navigator === "undefined" ? null : (navigator as any).bluetooth ?? null;
+}
+
+export function createWebBluetoothSource({ uuid, getEnvironmentFactor }: { uuid: string; getEnvironmentFactor: () => number }): BeaconSource {
+  let scan: any = null;
+  let listener: ((ev: any) => void) | null = null;
+  let generation = 0;
+
+  const detach = () => {
+    const bt = bluetooth();
+    if (bt && listener) bt.removeEventListener("advertisementreceived", listener);
+    listener = null;
+    const s = scan;
+    scan = null;
+    try {
+      s?.stop?.();
+    } catch {
+      return;
+    }
+  };
+
+  return {
+    kind: "web_bluetooth",
+    label: "Bluetooth",
+    shortLabel: "BLE",
+    capabilities() {
+      const bt = bluetooth();
+      if (!bt) return { supported: false, reason: "Web Bluetooth is not available in this browser.", realRadio: true, steerable: false };
+      if (typeof bt.requestLEScan !== "function") {
+        return { supported: false, reason: "This browser cannot scan for advertisements. In Chrome, enable experimental web platform features.", realRadio: true, steerable: false };
+      }
+      return { supported: true, realRadio: true, steerable: false };
+    },
+    async start(onObservation, onError) {
+      const bt = bluetooth();
+      if (!bt?.requestLEScan) {
+        onError("Web Bluetooth scanning is not supported.");
+        return;
+      }
+
+      const gen = ++generation;
+      const wanted = uuid.toUpperCase();
+
+      const onAdvert = (ev: any) => {
+        const ib = parseIBeacon(ev?.manufacturerData?.get?.(APPLE_COMPANY_ID));
+        if (!ib || ib.beacon.uuid !== wanted || typeof ev.rssi !== "number") return;
+        const meters = rssiToMeters(ev.rssi, ib.measuredPower, getEnvironmentFactor());
+        if (meters == null) return;
+        onObservation({ key: beaconKey(ib.beacon), meters, rssi: ev.rssi, ts: Date.now() });
+      };
+
+      try {
+        const s = await bt.requestLEScan({ filters: [{ manufacturerData: [{ companyIdentifier: APPLE_COMPANY_ID }] }], keepRepeatedDevices: true });
+        if (gen !== generation) {
+          s?.stop?.();
+          return;
+        }
+        scan = s;
+        listener = onAdvert;
+        bt.addEventListener("advertisementreceived", onAdvert);
+      } catch (e: any) {
+        if (gen !== generation) return;
+        onError(e?.message || "Bluetooth scan could not be started.");
+      }
+    },
+    stop() {
+      generation++;
+      detach();
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import type { BeaconObservation, BeaconSource } from "./source";
+
+export type TraceRecord = { t: number; key: string; rssi: number; meters: number };
+
+export type TraceRecorder = {
+  isRecording(): boolean;
+  start(): void;
+  stop(): void;
+  clear(): void;
+  record(obs: BeaconObservation): void;
+  records(): TraceRecord[];
+};
+
+export const REPLAY_SPEEDS = [1, 4, 10];
+
+export function createTraceRecorder(): TraceRecorder {
+  let recording = false;
+  let records: TraceRecord[] = [];
+
+  return {
+    isRecording: () => recording,
+    start() {
+      records = [];
+      recording = true;
+    },
+    stop() {
+      recording = false;
+    },
+    clear() {
+      records = [];
+    },
+    record(obs) {
+      if (!recording) return;
+      records.push({ t: obs.ts, key: obs.key, rssi: obs.rssi, meters: obs.meters });
+    },
+    records: () => records,
+  };
+}
+
+export function serializeTrace(records: TraceRecord[]) {
+  return records.map((r) => JSON.stringify(r)).join("\n") + (records.length ? "\n" : "");
+}
+
+export function parseTrace(text: string): { records: TraceRecord[]; invalid: number } {
+  const records: TraceRecord[] = [];
+  let invalid = 0;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    try {
+      const r = JSON.parse(line);
+      if (typeof r?.t !== "number" || typeof r?.key !== "string" || typeof r?.rssi !== "number" || typeof r?.meters !== "number") {
+        invalid++;
+        continue;
+      }
+      records.push({ t: r.t, key: r.key, rssi: r.rssi, meters: r.meters });
+    } catch {
+      invalid++;
+    }
+  }
+
+  records.sort((a, b) => a.t - b.t);
+  return { records, invalid };
+}
+
+/**
+ * Plays a trace back with its recorded spacing: timestamps are rebased to the replay start, and `now()` advances at
+ * the playback speed, so filters and freshness windows see the field's timing even at 10×.
+ */
+export function createReplaySource({ getTrace, getSpeed }: { getTrace: () => TraceRecord[] | null; getSpeed: () => number }): BeaconSource {
+  let timer: number | null = null;
+  // Replay time of the last observation and the wall time it was emitted.
+  let clock: { ts: number; wall: number } | null = null;
+
+  const clear = () => {
+    if (timer != null) window.clearTimeout(timer);
+    timer = null;
+  };
+
+  return {
+    kind: "replay",
+    label: "Replay",
+    shortLabel: "Replay",
+    capabilities() {
+      const trace = getTrace();
+      if (!trace?.length) return { supported: false, reason: "Load a recorded trace first.", realRadio: false, steerable: false };
+      return { supported: true, realRadio: false, steerable: false };
+    },
+    start(onObservation, onError, onEnded) {
+      const trace = getTrace();
+      if (!trace?.length) {
+        onError("No trace loaded.");
+        return;
+      }
+
+      clear();
+      let i = 0;
+      const base = Date.now() - trace[0].t;
+      clock = null;
+
+      const step = () => {
+        const rec = trace[i];
+        clock = { ts: base + rec.t, wall: Date.now() };
+        onObservation({ key: rec.key, meters: rec.meters, rssi: rec.rssi, ts: clock.ts });
+        i++;
+        if (i >= trace.length) {
+          timer = null;
+          onEnded?.();
+          return;
+        }
+        const speed = Math.max(0.1, getSpeed());
+        timer = window.setTimeout(step, Math.max(0, trace[i].t - rec.t) / speed) as any;
+      };
+
+      step();
+    },
+    stop() {
+      clear();
+    },
+    now() {
+      if (!clock) return Date.now();
+      return clock.ts + (Date.now() - clock.wall) * Math.max(0.1, getSpeed());
+    },
+  };
+}
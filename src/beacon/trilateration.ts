@@ -0,0 +1,85 @@
+import type { Anchor, RangeState } from "../types";
+import { beaconKey } from "./key";
+
+export type AnchorRange = { anchor: Anchor; meters: number; madMeters: number | null };
+
+export type PositionEstimate = {
+  x: number;
+  y: number;
+  residualMeters: number;
+  used: number;
+  nearest: { anchor: Anchor; meters: number };
+};
+
+const DEFAULT_MAD = 0.5;
+const MIN_ANCHORS = 3;
+
+export function freshAnchorRanges(anchors: Anchor[], ranged: Map<string, RangeState>, now: number, freshMs = 3000): AnchorRange[] {
+  const out: AnchorRange[] = [];
+  for (const anchor of anchors) {
+    const s = ranged.get(beaconKey(anchor.beacon));
+    if (!s || s.emaMeters == null || now - s.lastSeenMs > freshMs) continue;
+    out.push({ anchor, meters: s.emaMeters, madMeters: s.madMeters });
+  }
+  return out;
+}
+
+function weightOf(r: AnchorRange) {
+  const m = r.madMeters ?? DEFAULT_MAD;
+  return 1 / (m * m + 0.05);
+}
+
+export function trilaterate(ranges: AnchorRange[], { iterations = 25 }: { iterations?: number } = {}): PositionEstimate | null {
+  if (ranges.length < MIN_ANCHORS) return null;
+
+  const w = ranges.map(weightOf);
+  const wSum = w.reduce((a, b) => a + b, 0);
+  let x = ranges.reduce((sum, r, i) => sum + w[i] * r.anchor.x, 0) / wSum;
+  let y = ranges.reduce((sum, r, i) => sum + w[i] * r.anchor.y, 0) / wSum;
+
+  for (let it = 0; it < iterations; it++) {
+    let a00 = 0;
+    let a01 = 0;
+    let a11 = 0;
+    let b0 = 0;
+    let b1 = 0;
+
+    ranges.forEach((r, i) => {
+      const dx = x - r.anchor.x;
+      const dy = y - r.anchor.y;
+      const d = Math.hypot(dx, dy);
+      if (d < 1e-6) return;
+      const jx = dx / d;
+      const jy = dy / d;
+      const res = d - r.meters;
+      a00 += w[i] * jx * jx;
+      a01 += w[i] * jx * jy;
+      a11 += w[i] * jy * jy;
+      b0 -= w[i] * jx * res;
+      b1 -= w[i] * jy * res;
+    });
+
+    const det = a00 * a11 - a01 * a01;
+    if (Math.abs(det) < 1e-9) break;
+
+    const stepX = (a11 * b0 - a01 * b1) / det;
+    const stepY = (a00 * b1 - a01 * b0) / det;
+    x += stepX;
+    y += stepY;
+    if (Math.hypot(stepX, stepY) < 1e-3) break;
+  }
+
+  let sq = 0;
+  ranges.forEach((r, i) => {
+    const res = Math.hypot(x - r.anchor.x, y - r.anchor.y) - r.meters;
+    sq += w[i] * res * res;
+  });
+
+  let nearest = { anchor: ranges[0].anchor, meters: Infinity };
+  for (const r of ranges) {
+    const d = Math.hypot(x - r.anchor.x, y - r.anchor.y);
+    if (d < nearest.meters) nearest = { anchor: r.anchor, meters: d };
+  }
+
+  return { x, y, residualMeters: Math.sqrt(sq / wSum), used: ranges.length, nearest };
+}
@@ -0,0 +1,96 @@
+import type { Asset, Beacon, Jobsite, Technician } from "./types";
+import type { NewAsset } from "./api";
+import { beaconKey, canonicalUuid } from "./beacon/key";
+import { ORG_UUID } from "./config";
+
+export type CommissionField = "jobsiteMajor" | "minor" | "assetType" | "assetTag";
+
+export type CommissionInput = Record<CommissionField, string>;
+
+export type CommissionErrors = Partial<Record<CommissionField, string>>;
+
+/** Tags are printed on the asset label: a letter, then letters, digits or dashes. Typed tags are upper-cased. */
+export const ASSET_TAG_PATTERN = /^[A-Z][A-Z0-9-]{2,23}$/;
+
+export function normalizeTag(tag: string) {
+  return tag.trim().toUpperCase();
+}
+
+const whole = (s: string) => (/^\d+$/.test(s) ? Number(s) : NaN);
+
+/**
+ * Checks the commission form against the jobsites and the assets already known. `asset` is set only when there are
+ * no errors. An empty minor is reported too, so callers that validate while typing should wait until it is touched.
+ */
+export function validateCommission(input: CommissionInput, { jobsites, existing, technician }: { jobsites: Jobsite[]; existing: Asset[]; technician?: Technician | null }): { asset: NewAsset | null; errors: CommissionErrors } {
+  const errors: CommissionErrors = {};
+  const major = whole(input.jobsiteMajor.trim());
+  const minorText = input.minor.trim();
+  const minor = whole(minorText);
+  const assetType = input.assetType.trim();
+  const assetTag = normalizeTag(input.assetTag);
+
+  const jobsite = jobsites.find((j) => j.major === major);
+  if (!jobsite) errors.jobsiteMajor = input.jobsiteMajor.trim() ? `Jobsite ${input.jobsiteMajor.trim()} does not exist.` : "Choose a jobsite.";
+
+  if (!minorText) errors.minor = "Enter the minor printed on the beacon.";
+  else if (Number.isNaN(minor)) errors.minor = "The minor must be a whole number.";
+  else if (minor > 65535) errors.minor = "The minor must be from 0 to 65535.";
+  else if (jobsite) {
+    const key = beaconKey({ uuid: ORG_UUID, major, minor });
+    const taken = existing.find((a) => beaconKey(a.beacon) === key);
+    if (taken) errors.minor = `Minor ${minor} is already used on ${jobsite.name} by ${taken.displayName}.`;
+  }
+
+  if (!assetType) errors.assetType = "Enter the asset type.";
+
+  if (!assetTag) errors.assetTag = "Enter the asset tag.";
+  else if (!ASSET_TAG_PATTERN.test(assetTag)) errors.assetTag = "Tags start with a letter and use only letters, digits and dashes (3–24 characters).";
+
+  if (Object.keys(errors).length) return { asset: null, errors };
+  return {
+    asset: {
+      displayName: `${assetType} – ${assetTag}`,
+      assetType,
+      assetTag,
+      jobsiteMajor: major,
+      locationHint: "",
+      beacon: { uuid: ORG_UUID, major, minor },
+      commissionedBy: technician ?? undefined,
+    },
+    errors,
+  };
+}
+
+const UUID_IN_TEXT = /[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}/i;
+
+/** Pulls uuid/major/minor out of a sticker payload: JSON, a URL with query parameters, or the three values in order with any separators. */
+function stickerFields(text: string): { uuid: string | null; major: string; minor: string } | null {
+  try {
+    const j = JSON.parse(text);
+    if (j && typeof j === "object") return { uuid: canonicalUuid(String(j.uuid ?? "")), major: String(j.major ?? ""), minor: String(j.minor ?? "") };
+  } catch {
+    // Not JSON; try the other layouts.
+  }
+  try {
+    const q = new URL(text).searchParams;
+    if (q.has("major") && q.has("minor")) return { uuid: canonicalUuid(q.get("uuid") ?? ""), major: q.get("major") ?? "", minor: q.get("minor") ?? "" };
+  } catch {
+    // Not a URL.
+  }
+  const m = UUID_IN_TEXT.exec(text);
+  if (!m) return null;
+  const [major = "", minor = ""] = text.slice(m.index + m[0].length).match(/\d+/g) ?? [];
+  return { uuid: canonicalUuid(m[0]), major, minor };
+}
+
+/** Reads a beacon QR sticker. Stickers from another organisation's UUID are refused. */
+export function parseBeaconQr(text: string): { beacon: Beacon; error?: undefined } | { beacon?: undefined; error: string } {
+  const f = stickerFields(text.trim());
+  if (!f || !f.uuid) return { error: "This QR code is not a beacon sticker." };
+  if (f.uuid !== ORG_UUID.toUpperCase()) return { error: `This beacon belongs to another organisation (UUID ${f.uuid}).` };
+  const major = whole(f.major.trim());
+  const minor = whole(f.minor.trim());
+  if (Number.isNaN(major) || Number.isNaN(minor) || major > 65535 || minor > 65535) return { error: "The sticker's major and minor are not valid beacon numbers." };
+  return { beacon: { uuid: ORG_UUID, major, minor } };
+}
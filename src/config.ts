@@ -0,0 +1,2 @@
+export const API_BASE = import.meta.env.VITE_API_BASE || "http://localhost:8080";
+export const ORG_UUID = "2F234454-CF6D-4A0F-ADF2-F4911BA9FFA6";
@@ -0,0 +1,63 @@
+/** One parsed record; `line` is the 1-based line it starts on, so quoted line breaks and blank lines keep it accurate. */
+export type CsvRow = { line: number; fields: string[] };
+
+/** RFC 4180-ish: quoted fields, doubled quotes, CRLF or LF line ends. Blank lines are dropped. */
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  const src = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        if (c === "\n" || (c === "\r" && src[i + 1] !== "\n")) line++;
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push({ line: start, fields: row });
+      row = [];
+      field = "";
+      start = ++line;
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push({ line: start, fields: row });
+  }
+  return rows.filter((r) => r.fields.some((f) => f.trim()));
+}
+
+/**
+ * Spreadsheets run a cell that starts with one of these as a formula. Exports meant to be opened in Excel prefix such
+ * text with an apostrophe so it shows as typed; numbers are left alone, so negative values stay numeric.
+ */
+export function spreadsheetText(value: string) {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function csvField(value: string) {
+  return /[",\r\n]/.test(value) || /^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(rows: (string | number | null | undefined)[][]) {
+  return rows.map((r) => r.map((v) => csvField(v == null ? "" : String(v))).join(",")).join("\r\n") + "\r\n";
+}
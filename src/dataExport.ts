@@ -0,0 +1,107 @@
+import type { Asset, Jobsite, Movement, RangeState } from "./types";
+import type { Sighting } from "./beacon/sightings";
+import { beaconKey } from "./beacon/key";
+import { spreadsheetText, toCsv } from "./csv";
+import { timestampedName } from "./download";
+
+export type ExportFormat = "csv" | "json";
+
+export type ExportValue = string | number | null | string[];
+
+/** Flat rows with a fixed column order; CSV joins list values with "; ", JSON keeps them as arrays. */
+export type ExportTable = { name: string; columns: string[]; rows: Record<string, ExportValue>[] };
+
+const iso = (ms: number | null | undefined) => (ms == null ? null : new Date(ms).toISOString());
+const round = (v: number | null | undefined, digits = 2) => (v == null ? null : Number(v.toFixed(digits)));
+
+function jobsiteNames(jobsites: Jobsite[]) {
+  return new Map(jobsites.map((j) => [j.major, j.name]));
+}
+
+/** Last seen is the later of this session's ranging and the best stored GPS sighting. */
+export function assetsTable(assets: Asset[], { jobsites, ranged, sightings }: { jobsites: Jobsite[]; ranged: Map<string, RangeState>; sightings: Record<string, Sighting[]> }): ExportTable {
+  const names = jobsiteNames(jobsites);
+  return {
+    name: "assets",
+    columns: ["id", "displayName", "assetType", "assetTag", "jobsite", "jobsiteMajor", "beaconUuid", "beaconMajor", "beaconMinor", "locationHint", "lastSeen", "lastSeenBy", "distanceMeters", "lastRssi", "commissionedBy"],
+    rows: assets.map((a) => {
+      const key = beaconKey(a.beacon);
+      const r = ranged.get(key);
+      const gps = Math.max(0, ...(sightings[key] ?? []).map((s) => s.ts));
+      const rangedAt = r?.lastSeenMs ?? 0;
+      return {
+        id: a.id,
+        displayName: a.displayName,
+        assetType: a.assetType,
+        assetTag: a.assetTag,
+        jobsite: names.get(a.jobsiteMajor) ?? null,
+        jobsiteMajor: a.jobsiteMajor,
+        beaconUuid: a.beacon.uuid,
+        beaconMajor: a.beacon.major,
+        beaconMinor: a.beacon.minor,
+        locationHint: a.locationHint ?? null,
+        lastSeen: iso(Math.max(rangedAt, gps) || null),
+        lastSeenBy: rangedAt || gps ? (rangedAt >= gps ? "ranging" : "gps") : null,
+        distanceMeters: round(r?.emaMeters),
+        lastRssi: r?.lastRssi ?? null,
+        commissionedBy: a.commissionedBy?.name ?? null,
+      };
+    }),
+  };
+}
+
+/** Every beacon heard this session, matched to its asset or anchor when known. */
+export function rangingTable(ranged: Map<string, RangeState>, { assets, jobsites, stability }: { assets: Asset[]; jobsites: Jobsite[]; stability: (s: RangeState) => string }): ExportTable {
+  const assetByKey = new Map(assets.map((a) => [beaconKey(a.beacon), a]));
+  const anchorByKey = new Map(jobsites.flatMap((j) => (j.anchors ?? []).map((an) => [beaconKey(an.beacon), an.label] as const)));
+  const rows = Array.from(ranged.entries())
+    .sort((x, y) => y[1].lastSeenMs - x[1].lastSeenMs)
+    .map(([key, s]) => {
+      const [uuid, major, minor] = key.split("|");
+      const asset = assetByKey.get(key);
+      const anchor = anchorByKey.get(key);
+      return {
+        beaconUuid: uuid,
+        beaconMajor: Number(major),
+        beaconMinor: Number(minor),
+        kind: asset ? "asset" : anchor ? "anchor" : "unknown",
+        name: asset?.displayName ?? anchor ?? null,
+        assetTag: asset?.assetTag ?? null,
+        distanceMeters: round(s.emaMeters),
+        spreadMeters: round(s.madMeters),
+        stability: stability(s),
+        lastRssi: s.lastRssi,
+        lastSeen: iso(s.lastSeenMs),
+        samples: s.samples.length,
+      };
+    });
+  return {
+    name: "ranging",
+    columns: ["beaconUuid", "beaconMajor", "beaconMinor", "kind", "name", "assetTag", "distanceMeters", "spreadMeters", "stability", "lastRssi", "lastSeen", "samples"],
+    rows,
+  };
+}
+
+export function movementsTable(movements: Movement[]): ExportTable {
+  return {
+    name: "deployments",
+    columns: ["id", "time", "ticketNumber", "status", "location", "barcodes", "technician", "technicianEmail"],
+    rows: movements.map((m) => ({
+      id: m.id,
+      time: iso(m.ts),
+      ticketNumber: m.ticketNumber,
+      status: m.status,
+      location: m.location,
+      barcodes: m.barcodes,
+      technician: m.technician?.name ?? null,
+      technicianEmail: m.technician?.email ?? null,
+    })),
+  };
+}
+
+export function serializeTable(table: ExportTable, format: ExportFormat): { filename: string; text: string; mime: string } {
+  if (format === "json") return { filename: timestampedName(table.name, "json"), text: `${JSON.stringify(table.rows, null, 2)}\n`, mime: "application/json" };
+  const cell = (v: ExportValue) => (Array.isArray(v) ? spreadsheetText(v.join("; ")) : typeof v === "string" ? spreadsheetText(v) : v);
+  const cells = (r: Record<string, ExportValue>) => table.columns.map((c) => cell(r[c]));
+  return { filename: timestampedName(table.name, "csv"), text: toCsv([table.columns, ...table.rows.map(cells)]), mime: "text/csv" };
+}
@@ -0,0 +1,40 @@
+export function downloadText(filename: string, text: string, mime = "text/plain") {
+  const blob = new Blob([text], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function timestampedName(prefix: string, ext: string) {
+  return `${prefix}-${new Date().toISOString().replace(/[:.]/g, "-")}.${ext}`;
+}
+
+export function canShareFiles() {
+  try {
+    return typeof navigator !== "undefined" && !!navigator.canShare?.({ files: [new File([""], "check.txt", { type: "text/plain" })] });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Opens the share sheet with the text as a file. Resolves false when the browser cannot share files, or refuses
+ * because the tap that asked for it is too long ago (Safari, after a slow load); the caller should download instead.
+ */
+export async function shareText(filename: string, text: string, mime = "text/plain") {
+  const file = new File([text], filename, { type: mime });
+  if (!navigator.canShare?.({ files: [file] })) return false;
+  try {
+    await navigator.share({ files: [file], title: filename });
+  } catch (e: any) {
+    if (e?.name === "NotAllowedError") return false;
+    // Closing the share sheet is not a failure.
+    if (e?.name !== "AbortError") throw e;
+  }
+  return true;
+}
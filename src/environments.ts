@@ -0,0 +1,97 @@
+import { API_BASE } from "./config";
+
+export type EnvProfileId = "dev" | "staging" | "prod";
+
+/** `issuer` is the OIDC issuer for sign-in; empty means the backend does not require it. */
+export type EnvProfile = { id: EnvProfileId; label: string; baseUrl: string; issuer: string };
+
+type StoredProfile = { baseUrl: string; issuer: string };
+
+export const ENV_PROFILE_IDS: EnvProfileId[] = ["dev", "staging", "prod"];
+
+const PROFILES_KEY = "fs_toolbox_env_profiles";
+const ACTIVE_KEY = "fs_toolbox_env_profile";
+
+const env = import.meta.env;
+
+export const DEFAULT_PROFILES: EnvProfile[] = [
+  { id: "dev", label: "Dev", baseUrl: env.VITE_API_BASE_DEV || API_BASE, issuer: env.VITE_OIDC_ISSUER_DEV ?? "http://localhost:8081" },
+  { id: "staging", label: "Staging", baseUrl: env.VITE_API_BASE_STAGING || "", issuer: env.VITE_OIDC_ISSUER_STAGING || "" },
+  { id: "prod", label: "Prod", baseUrl: env.VITE_API_BASE_PROD || "", issuer: env.VITE_OIDC_ISSUER_PROD || "" },
+];
+
+const DEFAULT_PROFILE_ID: EnvProfileId = ENV_PROFILE_IDS.includes(env.VITE_DEFAULT_PROFILE as EnvProfileId) ? (env.VITE_DEFAULT_PROFILE as EnvProfileId) : "dev";
+
+export function normalizeBaseUrl(url: string) {
+  return url.trim().replace(/\/+$/, "");
+}
+
+export function isValidBaseUrl(url: string) {
+  try {
+    const u = new URL(url);
+    return u.protocol === "http:" || u.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+export const OIDC_CLIENT_ID = env.VITE_OIDC_CLIENT_ID || "fs-toolbox";
+
+export function loadProfiles(): EnvProfile[] {
+  let stored: Partial<Record<EnvProfileId, StoredProfile>> = {};
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (parsed && typeof parsed === "object") stored = parsed;
+  } catch {
+    stored = {};
+  }
+  return DEFAULT_PROFILES.map((p) => {
+    const s = stored[p.id];
+    if (s && typeof s.baseUrl === "string") return { ...p, baseUrl: s.baseUrl, issuer: typeof s.issuer === "string" ? s.issuer : p.issuer };
+    return p;
+  });
+}
+
+export function saveProfiles(profiles: EnvProfile[]) {
+  const out: Partial<Record<EnvProfileId, StoredProfile>> = {};
+  for (const p of profiles) out[p.id] = { baseUrl: normalizeBaseUrl(p.baseUrl), issuer: normalizeBaseUrl(p.issuer) };
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(out));
+  } catch {
+    return;
+  }
+}
+
+export function loadActiveProfileId(): EnvProfileId {
+  try {
+    const v = localStorage.getItem(ACTIVE_KEY);
+    return ENV_PROFILE_IDS.includes(v as EnvProfileId) ? (v as EnvProfileId) : DEFAULT_PROFILE_ID;
+  } catch {
+    return DEFAULT_PROFILE_ID;
+  }
+}
+
+export function saveActiveProfileId(id: EnvProfileId) {
+  try {
+    localStorage.setItem(ACTIVE_KEY, id);
+  } catch {
+    return;
+  }
+}
+
+export function loadActiveProfile(): EnvProfile {
+  const profiles = loadProfiles();
+  return profiles.find((p) => p.id === loadActiveProfileId()) ?? profiles[0];
+}
+
+let activeBase = normalizeBaseUrl(loadActiveProfile().baseUrl || API_BASE);
+
+/** Base URL every API call resolves against; follows the profile chosen in Settings. */
+export function activeBaseUrl() {
+  return activeBase;
+}
+
+export function setActiveBaseUrl(url: string) {
+  activeBase = normalizeBaseUrl(url);
+}
@@ -0,0 +1,110 @@
+import type { Anchor } from "./types";
+import { ApiError, api } from "./api";
+import { currentRole } from "./auth";
+import { can, deniedReason } from "./permissions";
+import { beaconKey } from "./beacon/key";
+
+export type PlacementKind = "asset" | "anchor";
+
+export type Placement = { key: string; kind: PlacementKind; x: number; y: number };
+
+export type FloorPlan = {
+  jobsiteMajor: number;
+  imageDataUrl: string;
+  aspect: number;
+  widthMeters: number;
+  placements: Placement[];
+  updatedAt?: string;
+};
+
+const CACHE_PREFIX = "fs_toolbox_floorplan_cache_";
+
+function readStored(key: string): FloorPlan | null {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as FloorPlan) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeCached(major: number, plan: FloorPlan | null) {
+  try {
+    if (plan) localStorage.setItem(`${CACHE_PREFIX}${major}`, JSON.stringify(plan));
+    else localStorage.removeItem(`${CACHE_PREFIX}${major}`);
+  } catch {
+    return;
+  }
+}
+
+/** Backend plans are also cached so offline mode can show them; demo plans are served by the mock API. */
+export async function fetchFloorPlan(mode: string, major: number): Promise<FloorPlan | null> {
+  if (mode === "offline") return readStored(`${CACHE_PREFIX}${major}`);
+
+  const j = await api.request(`/api/jobsites/${encodeURIComponent(String(major))}/floorplan`, { allow404: true });
+  if (mode === "backend") writeCached(major, j?.floorPlan ?? null);
+  return j?.floorPlan ?? null;
+}
+
+export async function storeFloorPlan(mode: string, plan: FloorPlan): Promise<FloorPlan> {
+  const next = { ...plan, updatedAt: new Date().toISOString() };
+
+  if (mode === "offline") throw new Error("Offline: saving the floor plan needs a connection.");
+
+  const path = `/api/jobsites/${encodeURIComponent(String(plan.jobsiteMajor))}/floorplan`;
+  if (!can(currentRole(), "floorplan")) throw new ApiError("forbidden", deniedReason("floorplan"), { path });
+  const j = await api.request(path, { method: "PUT", json: next, timeoutMs: 30000 });
+  if (mode === "backend") writeCached(plan.jobsiteMajor, j?.floorPlan ?? next);
+  return j?.floorPlan ?? next;
+}
+
+export function placeOnPlan(plan: FloorPlan, placement: Placement): FloorPlan {
+  return { ...plan, placements: [...plan.placements.filter((p) => p.key !== placement.key), placement] };
+}
+
+export function removeFromPlan(plan: FloorPlan, key: string): FloorPlan {
+  return { ...plan, placements: plan.placements.filter((p) => p.key !== key) };
+}
+
+export function anchorsOnPlan(anchors: Anchor[], plan: FloorPlan | null | undefined): Anchor[] {
+  if (!plan) return anchors;
+  return anchors.map((a) => {
+    const p = plan.placements.find((x) => x.kind === "anchor" && x.key === beaconKey(a.beacon));
+    if (!p) return a;
+    return { ...a, x: p.x * plan.widthMeters, y: p.y * plan.widthMeters * plan.aspect };
+  });
+}
+
+export function metersToPlan(plan: FloorPlan, x: number, y: number) {
+  return { x: x / plan.widthMeters, y: y / (plan.widthMeters * plan.aspect) };
+}
+
+export function loadPlanImage(file: File, maxDim = 1600): Promise<{ dataUrl: string; aspect: number }> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = Math.min(1, maxDim / Math.max(img.naturalWidth, img.naturalHeight));
+      const w = Math.max(1, Math.round(img.naturalWidth * scale));
+      const h = Math.max(1, Math.round(img.naturalHeight * scale));
+      const canvas = document.createElement("canvas");
+      canvas.width = w;
+      canvas.height = h;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Image could not be processed."));
+        return;
+      }
+      ctx.fillStyle = "#fff";
+      ctx.fillRect(0, 0, w, h);
+      ctx.drawImage(img, 0, 0, w, h);
+      resolve({ dataUrl: canvas.toDataURL("image/jpeg", 0.8), aspect: h / w });
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("That file is not a readable image."));
+    };
+    img.src = url;
+  });
+}
@@ -0,0 +1,79 @@
+import type { Geo } from "./types";
+
+export function toRad(d: number) {
+  return (d * Math.PI) / 180;
+}
+
+export function toDeg(r: number) {
+  return (r * 180) / Math.PI;
+}
+
+export function normalizeDeg(d: number) {
+  return ((d % 360) + 360) % 360;
+}
+
+export function haversineMeters(a: Geo | null, b: Geo | null) {
+  if (!a || !b) return null;
+  const R = 6371000;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const lat1 = toRad(a.lat);
+  const lat2 = toRad(b.lat);
+  const s1 = Math.sin(dLat / 2);
+  const s2 = Math.sin(dLon / 2);
+  const h = s1 * s1 + Math.cos(lat1) * Math.cos(lat2) * s2 * s2;
+  const c = 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+  return R * c;
+}
+
+export function initialBearingDeg(a: Geo | null, b: Geo | null) {
+  if (!a || !b) return null;
+  const lat1 = toRad(a.lat);
+  const lat2 = toRad(b.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return normalizeDeg(toDeg(Math.atan2(y, x)));
+}
+
+export function compassPoint(deg: number) {
+  const points = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
+  return points[Math.round(normalizeDeg(deg) / 45) % 8];
+}
+
+/** `accuracy` is in degrees: iOS reports it; elsewhere it is estimated from jitter (see headingJitterDeg). */
+export type HeadingReading = { heading: number; accuracy: number | null };
+
+function screenAngle() {
+  const s: any = typeof screen === "undefined" ? null : screen;
+  const angle = s?.orientation?.angle ?? (typeof window !== "undefined" ? (window as any).orientation : 0);
+  return typeof angle === "number" ? angle : 0;
+}
+
+export function headingFromOrientationEvent(ev: any): HeadingReading | null {
+  if (typeof ev?.webkitCompassHeading === "number" && ev.webkitCompassHeading >= 0) {
+    const acc = typeof ev.webkitCompassAccuracy === "number" ? ev.webkitCompassAccuracy : null;
+    return { heading: normalizeDeg(ev.webkitCompassHeading + screenAngle()), accuracy: acc };
+  }
+  if ((ev?.absolute || ev?.type === "deviceorientationabsolute") && typeof ev.alpha === "number") {
+    return { heading: normalizeDeg(360 - ev.alpha + screenAngle()), accuracy: null };
+  }
+  return null;
+}
+
+/**
+ * Spread of the frame-to-frame heading change, in degrees. A steady turn changes by a constant step and scores low;
+ * a magnetometer that needs calibrating wanders and scores high. Android reports no accuracy, so this stands in.
+ */
+export function headingJitterDeg(headings: number[]) {
+  if (headings.length < 5) return null;
+  const steps: number[] = [];
+  for (let i = 1; i < headings.length; i++) steps.push(((headings[i] - headings[i - 1] + 540) % 360) - 180);
+  const mean = steps.reduce((a, b) => a + b, 0) / steps.length;
+  return Math.sqrt(steps.reduce((a, b) => a + (b - mean) ** 2, 0) / steps.length);
+}
+
+export function isHeadingAccuracyPoor(accuracy: number | null) {
+  if (accuracy == null) return false;
+  return accuracy < 0 || accuracy > 25;
+}
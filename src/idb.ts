@@ -0,0 +1,113 @@
+const DB_NAME = "fs_toolbox";
+const DB_VERSION = 2;
+
+export type StoreName = "outbox" | "jobsites" | "assets" | "tickets" | "movements" | "meta";
+
+const KEY_PATHS: Record<StoreName, string> = {
+  outbox: "id",
+  jobsites: "major",
+  assets: "id",
+  tickets: "ticketNumber",
+  movements: "id",
+  meta: "key",
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      for (const [name, keyPath] of Object.entries(KEY_PATHS)) {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath });
+      }
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // Let a newer version of the app in another tab upgrade the schema.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    req.onerror = () => reject(req.error ?? new Error("IndexedDB could not be opened."));
+    req.onblocked = () => reject(new Error("IndexedDB upgrade is blocked by another open tab."));
+  });
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+function run<T>(store: StoreName, mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest<T> | void): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(store, mode);
+        const req = op(tx.objectStore(store));
+        tx.oncomplete = () => resolve(req ? req.result : (undefined as T));
+        tx.onerror = () => reject(tx.error ?? new Error("IndexedDB transaction failed."));
+        tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction was aborted."));
+      })
+  );
+}
+
+export function idbTransaction<T>(stores: StoreName[], mode: IDBTransactionMode, op: (tx: IDBTransaction) => Promise<T> | T): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(stores, mode);
+        let result: T;
+        Promise.resolve(op(tx)).then(
+          (r) => {
+            result = r;
+          },
+          (e) => {
+            reject(e);
+            try {
+              tx.abort();
+            } catch {
+              return;
+            }
+          }
+        );
+        tx.oncomplete = () => resolve(result);
+        tx.onerror = () => reject(tx.error ?? new Error("IndexedDB transaction failed."));
+        tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction was aborted."));
+      })
+  );
+}
+
+export function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("IndexedDB request failed."));
+  });
+}
+
+export function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  return run<T[]>(store, "readonly", (s) => s.getAll() as IDBRequest<T[]>);
+}
+
+export function idbGet<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return run<T | undefined>(store, "readonly", (s) => s.get(key) as IDBRequest<T | undefined>);
+}
+
+export function idbPut<T>(store: StoreName, value: T): Promise<void> {
+  return run<void>(store, "readwrite", (s) => {
+    s.put(value);
+  });
+}
+
+export function idbDelete(store: StoreName, key: IDBValidKey): Promise<void> {
+  return run<void>(store, "readwrite", (s) => {
+    s.delete(key);
+  });
+}
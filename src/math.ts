@@ -0,0 +1,18 @@
+export function clamp(n: number, lo: number, hi: number) {
+  return Math.min(hi, Math.max(lo, n));
+}
+
+export function median(arr: number[]) {
+  if (!arr.length) return null;
+  const a = [...arr].sort((x, y) => x - y);
+  const mid = Math.floor(a.length / 2);
+  return a.length % 2 ? a[mid] : (a[mid - 1] + a[mid]) / 2;
+}
+
+export function mad(arr: number[]) {
+  if (arr.length < 4) return null;
+  const med = median(arr);
+  if (med == null) return null;
+  const dev = arr.map((x) => Math.abs(x - med));
+  return median(dev);
+}
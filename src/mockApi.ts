@@ -0,0 +1,321 @@
+import type { Asset, Jobsite, Movement, MovementPayload, Ticket } from "./types";
+import { ORG_UUID } from "./config";
+import { currentRole, currentTechnician } from "./auth";
+import { can, deniedReason, type Permission } from "./permissions";
+import { parseCsv } from "./csv";
+import { guessMapping, missingFields, type ImportField } from "./assetImport";
+import { idbTransaction, request } from "./idb";
+
+/** Requests to this base URL never leave the browser; they are answered from demo data in IndexedDB. */
+export const MOCK_BASE_URL = "https://demo.fs-toolbox.invalid";
+
+export type MockSeed = { jobsites: Jobsite[]; beaconAssets: Asset[]; ticketDB: Record<string, string[]> };
+
+export interface MockApi {
+  fetch(url: string, init?: RequestInit): Promise<Response>;
+  reset(): Promise<void>;
+}
+
+const SEED_KEY = "seededAt";
+const FLOORPLAN_PREFIX = "fs_toolbox_floorplan_";
+
+class MockHttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "MockHttpError";
+    this.status = status;
+  }
+}
+
+function json(status: number, body?: unknown) {
+  if (body === undefined) return new Response(null, { status });
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+function localId() {
+  return `l${Date.now().toString(36)}${Math.random().toString(16).slice(2, 8)}`;
+}
+
+function requireRole(permission: Permission) {
+  if (!can(currentRole(), permission)) throw new MockHttpError(403, deniedReason(permission));
+}
+
+const isU16 = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 0 && (v as number) <= 65535;
+const text = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+const sameBeacon = (a: Asset["beacon"], b: Asset["beacon"]) => a.uuid.toLowerCase() === b.uuid.toLowerCase() && a.major === b.major && a.minor === b.minor;
+
+/** Mirrors the reference server's checks so demo mode rejects what the backend would. */
+function validateAsset(input: any, jobsites: Jobsite[]): { asset: Omit<Asset, "id">; error?: undefined } | { asset?: undefined; error: string } {
+  const assetType = text(input?.assetType);
+  const assetTag = text(input?.assetTag);
+  const jobsiteMajor = input?.jobsiteMajor;
+  const beacon = input?.beacon ?? {};
+  if (!assetType) return { error: "assetType is required." };
+  if (!assetTag) return { error: "assetTag is required." };
+  if (!isU16(jobsiteMajor)) return { error: "jobsiteMajor must be a whole number from 0 to 65535." };
+  if (!jobsites.some((j) => j.major === jobsiteMajor)) return { error: `Jobsite ${jobsiteMajor} does not exist.` };
+  if (!text(beacon.uuid)) return { error: "beacon.uuid is required." };
+  if (!isU16(beacon.major) || !isU16(beacon.minor)) return { error: "beacon.major and beacon.minor must be whole numbers from 0 to 65535." };
+
+  const asset: Omit<Asset, "id"> = {
+    displayName: text(input.displayName) || `${assetType} – ${assetTag}`,
+    assetType,
+    assetTag,
+    jobsiteMajor,
+    locationHint: text(input.locationHint),
+    beacon: { uuid: text(beacon.uuid), major: beacon.major, minor: beacon.minor },
+  };
+  if (typeof input.simulate === "boolean") asset.simulate = input.simulate;
+  if (input.commissionedBy && typeof input.commissionedBy.id === "string") asset.commissionedBy = input.commissionedBy;
+  return { asset };
+}
+
+export function createMockApi(seed: MockSeed): MockApi {
+  const writeSeed = (tx: IDBTransaction) => {
+    const jobsites = tx.objectStore("jobsites");
+    const assets = tx.objectStore("assets");
+    const tickets = tx.objectStore("tickets");
+    for (const j of seed.jobsites) jobsites.put(j);
+    for (const a of seed.beaconAssets) assets.put(a);
+    for (const [ticketNumber, list] of Object.entries(seed.ticketDB)) tickets.put({ ticketNumber, assets: [...list] });
+    tx.objectStore("meta").put({ key: SEED_KEY, value: Date.now() });
+  };
+
+  let seeded: Promise<void> | null = null;
+  const ensureSeeded = () => {
+    if (!seeded) {
+      seeded = idbTransaction(["meta", "jobsites", "assets", "tickets"], "readwrite", async (tx) => {
+        const marker = await request(tx.objectStore("meta").get(SEED_KEY));
+        if (!marker) writeSeed(tx);
+      });
+      seeded.catch(() => {
+        seeded = null;
+      });
+    }
+    return seeded;
+  };
+
+  const listJobsites = () => idbTransaction(["jobsites"], "readonly", (tx) => request(tx.objectStore("jobsites").getAll() as IDBRequest<Jobsite[]>));
+
+  const createAsset = (input: any) =>
+    idbTransaction(["jobsites", "assets"], "readwrite", async (tx) => {
+      const jobsites = (await request(tx.objectStore("jobsites").getAll())) as Jobsite[];
+      const { asset, error } = validateAsset({ ...input, commissionedBy: input?.commissionedBy ?? currentTechnician() ?? undefined }, jobsites);
+      if (!asset) throw new MockHttpError(400, error);
+      const assets = tx.objectStore("assets");
+      const all = (await request(assets.getAll())) as Asset[];
+      const taken = all.find((a) => sameBeacon(a.beacon, asset.beacon));
+      if (taken) throw new MockHttpError(409, `Beacon ${asset.beacon.major}/${asset.beacon.minor} is already commissioned as ${taken.displayName}.`);
+      const created: Asset = { ...asset, id: localId() };
+      assets.put(created);
+      return created;
+    });
+
+  const importCsv = (csvText: string) =>
+    idbTransaction(["jobsites", "assets"], "readwrite", async (tx) => {
+      const [head, ...rows] = parseCsv(csvText);
+      if (!head) throw new MockHttpError(400, "The CSV file is empty.");
+
+      const col = guessMapping(head.fields);
+      const missing = missingFields(col);
+      if (missing.length) throw new MockHttpError(400, `The CSV file is missing columns: ${missing.map((f) => f.field).join(", ")}.`);
+
+      const jobsites = (await request(tx.objectStore("jobsites").getAll())) as Jobsite[];
+      const store = tx.objectStore("assets");
+      const existing = (await request(store.getAll())) as Asset[];
+      const technician = currentTechnician() ?? undefined;
+      const summary = { created: 0, skipped: 0, errors: 0, problems: [] as { line: number; message: string }[] };
+
+      rows.forEach(({ line, fields }) => {
+        const cell = (field: ImportField) => (col[field] == null ? "" : String(fields[col[field] as number] ?? "").trim());
+        const major = Number(cell("jobsiteMajor"));
+        const { asset, error } = validateAsset(
+          {
+            displayName: cell("displayName"),
+            assetType: cell("assetType"),
+            assetTag: cell("assetTag"),
+            jobsiteMajor: cell("jobsiteMajor") ? major : NaN,
+            locationHint: cell("locationHint"),
+            beacon: { uuid: cell("uuid") || ORG_UUID, major, minor: cell("minor") ? Number(cell("minor")) : NaN },
+            commissionedBy: technician,
+          },
+          jobsites
+        );
+        if (!asset) {
+          summary.errors++;
+          summary.problems.push({ line, message: error });
+          return;
+        }
+        if (existing.some((a) => sameBeacon(a.beacon, asset.beacon))) {
+          summary.skipped++;
+          summary.problems.push({ line, message: `Beacon ${asset.beacon.major}/${asset.beacon.minor} is already commissioned.` });
+          return;
+        }
+        const created: Asset = { ...asset, id: localId() };
+        store.put(created);
+        existing.push(created);
+        summary.created++;
+      });
+      return summary;
+    });
+
+  const recordMovement = (body: any, idempotencyKey: string) =>
+    idbTransaction(["tickets", "movements"], "readwrite", async (tx) => {
+      const tickets = tx.objectStore("tickets");
+      const movements = tx.objectStore("movements");
+      // A retried submission gets the original answer instead of being applied twice.
+      const previous = idempotencyKey ? ((await request(movements.get(idempotencyKey))) as Movement | undefined) : undefined;
+      if (previous) {
+        const ticket = (await request(tickets.get(previous.ticketNumber))) as Ticket | undefined;
+        return { status: 200, result: { attached: previous.barcodes.length, assets: ticket?.assets ?? [] } };
+      }
+
+      const payload = body as MovementPayload;
+      const ticketNumber = text(payload?.ticketNumber);
+      if (!ticketNumber) throw new MockHttpError(400, "ticketNumber is required.");
+      if (!Array.isArray(payload.barcodes) || !payload.barcodes.length || payload.barcodes.some((b) => !text(b))) throw new MockHttpError(400, "barcodes must be a non-empty list of strings.");
+      if (!text(payload.status)) throw new MockHttpError(400, "status is required.");
+      if (!text(payload.location)) throw new MockHttpError(400, "location is required.");
+
+      const ticket = (await request(tickets.get(ticketNumber))) as Ticket | undefined;
+      if (!ticket) throw new MockHttpError(404, `Ticket ${ticketNumber} not found.`);
+
+      const assets = Array.from(new Set([...ticket.assets, ...payload.barcodes]));
+      tickets.put({ ...ticket, assets });
+      const movement: Movement = { ...payload, ticketNumber, id: idempotencyKey || localId(), ts: Date.now(), technician: payload.technician ?? currentTechnician() ?? undefined };
+      movements.put(movement);
+      return { status: 201, result: { attached: payload.barcodes.length, assets } };
+    });
+
+  const readJson = async (req: Request) => {
+    try {
+      const raw = await req.text();
+      return raw ? JSON.parse(raw) : {};
+    } catch {
+      throw new MockHttpError(400, "Request body is not valid JSON.");
+    }
+  };
+
+  const jobsiteMajorParam = async (raw: string) => {
+    const major = Number(raw);
+    if (!isU16(major) || !(await listJobsites()).some((j) => j.major === major)) throw new MockHttpError(404, `Jobsite ${raw} not found.`);
+    return major;
+  };
+
+  const route = async (req: Request): Promise<Response> => {
+    const url = new URL(req.url);
+    const path = url.pathname;
+    const method = req.method;
+    let m: RegExpExecArray | null;
+
+    if (method === "GET" && path === "/api/health") return json(200, { ok: true });
+
+    await ensureSeeded();
+
+    if (method === "GET" && path === "/api/me") {
+      const t = currentTechnician();
+      return json(200, { id: t?.id ?? "demo", name: t?.name ?? "Demo technician", email: t?.email, roles: [currentRole()] });
+    }
+
+    if (method === "GET" && path === "/api/jobsites") return json(200, { jobsites: await listJobsites() });
+
+    if (path === "/api/assets" && method === "GET") {
+      const raw = url.searchParams.get("major");
+      const major = raw == null || raw === "" ? null : Number(raw);
+      if (major != null && !isU16(major)) throw new MockHttpError(400, "major must be a whole number from 0 to 65535.");
+      const all = await idbTransaction(["assets"], "readonly", (tx) => request(tx.objectStore("assets").getAll() as IDBRequest<Asset[]>));
+      return json(200, { assets: major == null ? all : all.filter((a) => a.jobsiteMajor === major) });
+    }
+
+    if (path === "/api/assets" && method === "POST") {
+      requireRole("commission");
+      return json(201, { asset: await createAsset(await readJson(req)) });
+    }
+
+    if ((m = /^\/api\/assets\/([^/]+)$/.exec(path)) && method === "DELETE") {
+      requireRole("delete");
+      const id = decodeURIComponent(m[1]);
+      await idbTransaction(["assets"], "readwrite", async (tx) => {
+        const store = tx.objectStore("assets");
+        if (!(await request(store.get(id)))) throw new MockHttpError(404, `Asset ${id} not found.`);
+        store.delete(id);
+      });
+      return json(204);
+    }
+
+    if ((m = /^\/api\/tickets\/([^/]+)$/.exec(path)) && method === "GET") {
+      const ticketNumber = decodeURIComponent(m[1]);
+      const ticket = await idbTransaction(["tickets"], "readonly", (tx) => request(tx.objectStore("tickets").get(ticketNumber) as IDBRequest<Ticket | undefined>));
+      if (!ticket) throw new MockHttpError(404, `Ticket ${ticketNumber} not found.`);
+      return json(200, ticket);
+    }
+
+    if (path === "/api/asset-movements" && method === "GET") {
+      const all = await idbTransaction(["movements"], "readonly", (tx) => request(tx.objectStore("movements").getAll() as IDBRequest<Movement[]>));
+      return json(200, { movements: all.sort((a, b) => a.ts - b.ts) });
+    }
+
+    if (path === "/api/asset-movements" && method === "POST") {
+      const { status, result } = await recordMovement(await readJson(req), text(req.headers.get("idempotency-key")));
+      return json(status, result);
+    }
+
+    if (path === "/api/import/assets" && method === "POST") {
+      requireRole("import");
+      let csvText: string;
+      if ((req.headers.get("content-type") || "").startsWith("multipart/form-data")) {
+        const file = (await req.formData()).get("file");
+        if (!file || typeof file === "string") throw new MockHttpError(400, "Attach the CSV as a form field named file.");
+        csvText = await file.text();
+      } else {
+        csvText = await req.text();
+      }
+      return json(200, await importCsv(csvText));
+    }
+
+    if ((m = /^\/api\/jobsites\/([^/]+)\/floorplan$/.exec(path))) {
+      const major = await jobsiteMajorParam(decodeURIComponent(m[1]));
+      const key = `${FLOORPLAN_PREFIX}${major}`;
+      if (method === "GET") {
+        const raw = localStorage.getItem(key);
+        if (!raw) throw new MockHttpError(404, `Jobsite ${major} has no floor plan.`);
+        return json(200, { floorPlan: JSON.parse(raw) });
+      }
+      if (method === "PUT") {
+        requireRole("floorplan");
+        const floorPlan = { ...(await readJson(req)), jobsiteMajor: major, updatedAt: new Date().toISOString() };
+        try {
+          localStorage.setItem(key, JSON.stringify(floorPlan));
+        } catch {
+          throw new MockHttpError(413, "Floor plan is too large to store on this device.");
+        }
+        return json(200, { floorPlan });
+      }
+    }
+
+    // Sightings are already kept on the device; there is nowhere else for demo mode to send them.
+    if (path === "/api/sightings" && method === "POST") return json(201, { ok: true });
+
+    throw new MockHttpError(404, `No route for ${method} ${path}.`);
+  };
+
+  return {
+    async fetch(url, init) {
+      try {
+        return await route(new Request(url, init));
+      } catch (e: any) {
+        if (e instanceof MockHttpError) return json(e.status, { error: e.message });
+        return json(500, { error: String(e?.message || e) });
+      }
+    },
+    async reset() {
+      await idbTransaction(["meta", "jobsites", "assets", "tickets", "movements"], "readwrite", (tx) => {
+        for (const name of ["jobsites", "assets", "tickets", "movements"]) tx.objectStore(name).clear();
+        writeSeed(tx);
+      });
+      seeded = Promise.resolve();
+    },
+  };
+}
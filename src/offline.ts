@@ -0,0 +1,53 @@
+import type { Asset, Jobsite } from "./types";
+import { activeBaseUrl } from "./environments";
+
+export type ReferenceCache = { jobsites: Jobsite[]; assets: Asset[]; syncedAt: number; baseUrl?: string };
+
+const STORAGE_KEY = "fs_toolbox_reference_cache";
+
+export function loadReferenceCache(): ReferenceCache | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const c = JSON.parse(raw);
+    if (!Array.isArray(c?.jobsites) || !Array.isArray(c?.assets) || typeof c?.syncedAt !== "number") return null;
+    // Data cached from another environment profile must not stand in for this one.
+    if (c.baseUrl && c.baseUrl !== activeBaseUrl()) return null;
+    return c as ReferenceCache;
+  } catch {
+    return null;
+  }
+}
+
+export function saveReferenceCache(patch: Partial<Omit<ReferenceCache, "syncedAt" | "baseUrl">>): ReferenceCache | null {
+  const prev = loadReferenceCache();
+  const next: ReferenceCache = {
+    jobsites: patch.jobsites ?? prev?.jobsites ?? [],
+    assets: patch.assets ?? prev?.assets ?? [],
+    syncedAt: Date.now(),
+    baseUrl: activeBaseUrl(),
+  };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    return next;
+  } catch {
+    return null;
+  }
+}
+
+/** Registers the offline worker once the page has loaded. Resolves with null, or with why offline use is unavailable. */
+export function registerServiceWorker(): Promise<string | null> {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return Promise.resolve(null);
+  const loaded = document.readyState === "complete" ? Promise.resolve() : new Promise<void>((resolve) => window.addEventListener("load", () => resolve(), { once: true }));
+  return loaded.then(() => navigator.serviceWorker.register("/sw.js")).then(
+    () => null,
+    (e: any) => String(e?.message || e)
+  );
+}
+
+export function formatSyncedAt(ts: number | null | undefined) {
+  if (!ts) return "Never";
+  const d = new Date(ts);
+  const sameDay = d.toDateString() === new Date().toDateString();
+  return sameDay ? d.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" }) : d.toLocaleString([], { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
@@ -0,0 +1,131 @@
+import type { MovementPayload } from "./types";
+import { ApiError, api, createApiClient } from "./api";
+import { idbDelete, idbGet, idbGetAll, idbPut } from "./idb";
+import { postSighting, type Sighting } from "./beacon/sightings";
+
+export type OutboxState = "pending" | "failed";
+
+/** Entries queued before sightings shared the outbox have no `kind`; they are movements. */
+export type OutboxEntry = {
+  id: string;
+  /** Backend the submission was made against; it is delivered there even if the active profile changes. */
+  baseUrl?: string;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  state: OutboxState;
+} & ({ kind?: "movement"; payload: MovementPayload } | { kind: "sighting"; payload: Sighting });
+
+export type MovementEntry = Extract<OutboxEntry, { kind?: "movement" }>;
+
+export function isMovementEntry(e: OutboxEntry): e is MovementEntry {
+  return e.kind !== "sighting";
+}
+
+export type OutboxResult = { id: string; ok: true; attached: number; assets: string[] } | { id: string; ok: false; retryable: boolean; error: string };
+
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+
+export function idempotencyKey() {
+  const c: any = typeof crypto === "undefined" ? null : crypto;
+  if (c?.randomUUID) return c.randomUUID() as string;
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+export function backoffMs(attempts: number) {
+  const base = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+}
+
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  const all = await idbGetAll<OutboxEntry>("outbox");
+  return all.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function enqueueMovement(payload: MovementPayload, now = Date.now()): Promise<OutboxEntry> {
+  const entry: OutboxEntry = { id: idempotencyKey(), baseUrl: api.baseUrl, kind: "movement", payload, createdAt: now, attempts: 0, nextAttemptAt: now, lastError: null, state: "pending" };
+  await idbPut("outbox", entry);
+  return entry;
+}
+
+export async function enqueueSighting(payload: Sighting, now = Date.now()): Promise<OutboxEntry> {
+  const entry: OutboxEntry = { id: idempotencyKey(), baseUrl: api.baseUrl, kind: "sighting", payload, createdAt: now, attempts: 0, nextAttemptAt: now, lastError: null, state: "pending" };
+  await idbPut("outbox", entry);
+  return entry;
+}
+
+export async function discardOutboxEntry(id: string) {
+  await idbDelete("outbox", id);
+}
+
+export async function retryOutboxEntry(id: string, now = Date.now()) {
+  const entry = await idbGet<OutboxEntry>("outbox", id);
+  if (!entry) return;
+  await idbPut("outbox", { ...entry, state: "pending", nextAttemptAt: now });
+}
+
+async function deliver(entry: OutboxEntry): Promise<OutboxResult> {
+  try {
+    const client = entry.baseUrl && entry.baseUrl !== api.baseUrl ? createApiClient({ baseUrl: entry.baseUrl }) : api;
+    if (entry.kind === "sighting") {
+      await postSighting(entry.payload, client);
+      return { id: entry.id, ok: true, attached: 0, assets: [] };
+    }
+    const res = await client.postMovement(entry.payload, entry.id);
+    return { id: entry.id, ok: true, attached: res.attached, assets: res.assets };
+  } catch (e: any) {
+    // A rejected payload will not succeed on a retry; those wait for the technician.
+    const retryable = e instanceof ApiError ? e.retryable : true;
+    return { id: entry.id, ok: false, retryable, error: String(e?.message || e) };
+  }
+}
+
+let flushing: Promise<OutboxResult[]> | null = null;
+
+export function flushOutbox(now = Date.now()): Promise<OutboxResult[]> {
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    const results: OutboxResult[] = [];
+    const due = (await listOutbox()).filter((e) => e.state === "pending" && e.nextAttemptAt <= now);
+    const unreachable = new Set<string>();
+
+    for (const entry of due) {
+      if (unreachable.has(entry.baseUrl ?? "")) continue;
+      const res = await deliver(entry);
+      results.push(res);
+
+      // Nobody reviews a rejected sighting, so it is dropped rather than kept as needing attention.
+      if (res.ok || (entry.kind === "sighting" && !res.retryable)) {
+        await idbDelete("outbox", entry.id);
+        continue;
+      }
+
+      const attempts = entry.attempts + 1;
+      await idbPut("outbox", {
+        ...entry,
+        attempts,
+        lastError: res.error,
+        state: res.retryable ? "pending" : "failed",
+        nextAttemptAt: Date.now() + backoffMs(attempts),
+      });
+
+      // Still unreachable: the rest of that backend's queue would fail the same way.
+      if (res.retryable) unreachable.add(entry.baseUrl ?? "");
+    }
+
+    return results;
+  })().finally(() => {
+    flushing = null;
+  });
+
+  return flushing;
+}
+
+export function nextRetryAt(entries: OutboxEntry[]) {
+  let next: number | null = null;
+  for (const e of entries) if (e.state === "pending" && (next == null || e.nextAttemptAt < next)) next = e.nextAttemptAt;
+  return next;
+}
@@ -0,0 +1,36 @@
+import type { Role } from "./types";
+
+export type Permission = "import" | "commission" | "delete" | "floorplan";
+
+export const ROLES: Role[] = ["technician", "lead", "admin"];
+
+export const ROLE_LABELS: Record<Role, string> = { technician: "Technician", lead: "Lead", admin: "Admin" };
+
+/** Least role that may perform each action; roles are ordered, so an admin can do everything a lead can. */
+const REQUIRED_ROLE: Record<Permission, Role> = { import: "admin", commission: "lead", delete: "admin", floorplan: "admin" };
+
+const DENIED: Record<Permission, string> = {
+  import: "Only admins can import assets.",
+  commission: "Commissioning beacons needs a lead or admin role.",
+  delete: "Only admins can delete assets.",
+  floorplan: "Only admins can edit floor plans.",
+};
+
+export function can(role: Role, permission: Permission) {
+  return ROLES.indexOf(role) >= ROLES.indexOf(REQUIRED_ROLE[permission]);
+}
+
+export function deniedReason(permission: Permission) {
+  return DENIED[permission];
+}
+
+/** Reads `roles` (list) or `role` (string) from token claims or /api/me; several roles resolve to the highest. */
+export function roleFromClaims(claims: { roles?: unknown; role?: unknown } | null | undefined): Role | null {
+  const raw = Array.isArray(claims?.roles) ? claims.roles : claims?.role != null ? [claims.role] : [];
+  let best: Role | null = null;
+  for (const r of raw) {
+    const role = String(r).toLowerCase() as Role;
+    if (ROLES.includes(role) && (!best || ROLES.indexOf(role) > ROLES.indexOf(best))) best = role;
+  }
+  return best;
+}
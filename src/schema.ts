@@ -0,0 +1,122 @@
+import type { Anchor, Asset, Beacon, Jobsite, Movement, Technician } from "./types";
+
+export type SchemaIssue = { path: string; message: string };
+
+export type Schema<T> = (value: unknown, path: string, issues: SchemaIssue[]) => T | undefined;
+
+function describe(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  return typeof value === "object" ? "an object" : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+export const str: Schema<string> = (v, path, issues) => {
+  if (typeof v === "string") return v;
+  issues.push({ path, message: `should be a string, got ${describe(v)}` });
+  return undefined;
+};
+
+export const num: Schema<number> = (v, path, issues) => {
+  if (typeof v === "number" && Number.isFinite(v)) return v;
+  issues.push({ path, message: `should be a number, got ${describe(v)}` });
+  return undefined;
+};
+
+export const bool: Schema<boolean> = (v, path, issues) => {
+  if (typeof v === "boolean") return v;
+  issues.push({ path, message: `should be true or false, got ${describe(v)}` });
+  return undefined;
+};
+
+export function intIn(min: number, max: number): Schema<number> {
+  return (v, path, issues) => {
+    if (typeof v === "number" && Number.isInteger(v) && v >= min && v <= max) return v;
+    issues.push({ path, message: `should be a whole number from ${min} to ${max}, got ${describe(v)}` });
+    return undefined;
+  };
+}
+
+/** Accepts string or numeric ids and normalizes them to strings. */
+export const id: Schema<string> = (v, path, issues) => {
+  if (typeof v === "string" && v) return v;
+  if (typeof v === "number" && Number.isFinite(v)) return String(v);
+  issues.push({ path, message: `should be an id, got ${describe(v)}` });
+  return undefined;
+};
+
+/** Missing or null both read as absent. */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (v, path, issues) => (v == null ? undefined : schema(v, path, issues));
+}
+
+export function arrayOf<T>(schema: Schema<T>): Schema<T[]> {
+  return (v, path, issues) => {
+    if (!Array.isArray(v)) {
+      issues.push({ path, message: `should be a list, got ${describe(v)}` });
+      return undefined;
+    }
+    const before = issues.length;
+    const out = v.map((item, i) => schema(item, `${path}[${i}]`, issues));
+    return issues.length === before ? (out as T[]) : undefined;
+  };
+}
+
+export function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return (v, path, issues) => {
+    if (!v || typeof v !== "object" || Array.isArray(v)) {
+      issues.push({ path, message: `should be an object, got ${describe(v)}` });
+      return undefined;
+    }
+    const before = issues.length;
+    const out: any = {};
+    for (const key of Object.keys(shape) as (keyof T)[]) {
+      const parsed = shape[key]((v as any)[key], path ? `${path}.${String(key)}` : String(key), issues);
+      if (parsed !== undefined) out[key] = parsed;
+    }
+    return issues.length === before ? (out as T) : undefined;
+  };
+}
+
+export function parse<T>(schema: Schema<T>, value: unknown, path = ""): { ok: true; value: T } | { ok: false; issues: SchemaIssue[] } {
+  const issues: SchemaIssue[] = [];
+  const out = schema(value, path, issues);
+  return issues.length ? { ok: false, issues } : { ok: true, value: out as T };
+}
+
+export function formatIssues(issues: SchemaIssue[], max = 3) {
+  const shown = issues.slice(0, max).map((i) => `${i.path || "response"} ${i.message}`);
+  const more = issues.length > max ? ` (+${issues.length - max} more)` : "";
+  return `${shown.join("; ")}${more}`;
+}
+
+const u16 = intIn(0, 65535);
+
+export const BeaconSchema: Schema<Beacon> = object<Beacon>({ uuid: str, major: u16, minor: u16 });
+
+export const AnchorSchema: Schema<Anchor> = object<Anchor>({ label: str, beacon: BeaconSchema, x: num, y: num });
+
+export const JobsiteSchema: Schema<Jobsite> = object<Jobsite>({ major: u16, name: str, anchors: optional(arrayOf(AnchorSchema)) });
+
+export const TechnicianSchema: Schema<Technician> = object<Technician>({ id, name: str, email: optional(str) });
+
+export const AssetSchema: Schema<Asset> = object<Asset>({
+  id,
+  displayName: str,
+  assetType: str,
+  assetTag: str,
+  jobsiteMajor: u16,
+  locationHint: optional(str),
+  beacon: BeaconSchema,
+  simulate: optional(bool),
+  commissionedBy: optional(TechnicianSchema),
+});
+
+export const MovementSchema: Schema<Movement> = object<Movement>({
+  id,
+  ts: num,
+  ticketNumber: str,
+  barcodes: arrayOf(str),
+  status: str,
+  location: str,
+  technician: optional(TechnicianSchema),
+});
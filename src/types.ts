@@ -0,0 +1,43 @@
+export type Beacon = { uuid: string; major: number; minor: number };
+
+export type Anchor = { label: string; beacon: Beacon; x: number; y: number };
+
+export type Jobsite = { major: number; name: string; anchors?: Anchor[] };
+
+export type Technician = { id: string; name: string; email?: string };
+
+export type Role = "technician" | "lead" | "admin";
+
+export type Asset = {
+  id: string;
+  displayName: string;
+  assetType: string;
+  assetTag: string;
+  jobsiteMajor: number;
+  locationHint?: string;
+  beacon: Beacon;
+  simulate?: boolean;
+  commissionedBy?: Technician;
+};
+
+export type MovementPayload = { ticketNumber: string; barcodes: string[]; status: string; location: string; technician?: Technician };
+
+export type Movement = MovementPayload & { id: string; ts: number };
+
+export type Ticket = { ticketNumber: string; assets: string[] };
+
+export type RangeState = {
+  samples: number[];
+  lastSeenMs: number;
+  emaMeters: number | null;
+  madMeters: number | null;
+  deltaMeters: number | null;
+  lastEmaMeters: number | null;
+  lastRssi: number | null;
+  variance: number | null;
+  kalman?: KalmanState;
+};
+
+export type KalmanState = { meters: number; velocity: number; p00: number; p01: number; p11: number; ts: number };
+
+export type Geo = { lat: number; lon: number };
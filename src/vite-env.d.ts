@@ -0,0 +1,17 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE?: string;
+  readonly VITE_API_BASE_DEV?: string;
+  readonly VITE_API_BASE_STAGING?: string;
+  readonly VITE_API_BASE_PROD?: string;
+  readonly VITE_DEFAULT_PROFILE?: string;
+  readonly VITE_OIDC_ISSUER_DEV?: string;
+  readonly VITE_OIDC_ISSUER_STAGING?: string;
+  readonly VITE_OIDC_ISSUER_PROD?: string;
+  readonly VITE_OIDC_CLIENT_ID?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}